@@ -1,50 +1,200 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Avatar3D from './components/Avatar3D';
 import Controls from './components/Controls';
 import SubtitleDisplay from './components/SubtitleDisplay';
 import FeedbackCard from './components/FeedbackCard';
+import PitchContourPanel from './components/PitchContourPanel';
+import GrammarCard from './components/GrammarCard';
+import ObjectivesChecklist from './components/ObjectivesChecklist';
 import HistoryPanel from './components/HistoryPanel';
+import MistakesPanel from './components/MistakesPanel';
+import ErrorNotice from './components/ErrorNotice';
+import PersonaPicker from './components/PersonaPicker';
 import LessonLibrary from './components/LessonLibrary';
+import PastSessions from './components/PastSessions';
+import ReviewDeck from './components/ReviewDeck';
+import ProgressDashboard from './components/ProgressDashboard';
+import RevealModePicker from './components/RevealModePicker';
 import { LiveApiService } from './services/liveApiService';
-import { ConnectionState, SubtitleData, PronunciationFeedback, ConversationTurn, Lesson } from './types';
-import { MessageSquare, AlertCircle, BookOpen, Gauge } from 'lucide-react';
+import { LiveServiceError } from './services/liveServiceError';
+import { saveSession } from './services/sessionArchive';
+import { saveCard, listCards, deleteCard } from './services/reviewDeck';
+import { saveImportedLesson, listImportedLessons, deleteImportedLesson } from './services/lessonStore';
+import { compileLesson } from './utils/lessonCompiler';
+import { DEFAULT_PERSONA, getPersona } from './data/personas';
+import { getLessonTitle } from './data/lessons';
+import { EXPRESSION_HOLD_MS, expressionForScore } from './data/expressions';
+import { SessionRecorder, findSegmentForTurn, playSegment, playAudioBuffers, saveRecording, getRecording, exportRecordingAsWav, exportTurnClipsAsZip } from './services/sessionRecorder';
+import { loadVadSettings, saveVadSettings, loadMicSettings, saveMicSettings, loadPlaybackSettings, savePlaybackSettings, loadDisplaySettings, saveDisplaySettings } from './services/audioSettings';
+import { downloadBytes } from './utils/wav';
+import { createReviewCard, scheduleReview, isCardDue } from './utils/srs';
+import { defaultRevealMode } from './utils/subtitleReveal';
+import { convertScript, convertSubtitle, convertTurn, convertFeedback, convertGrammarError } from './utils/scriptConversion';
+import { exportTranscript, TranscriptFormat, TRANSCRIPT_FORMAT_INFO } from './utils/transcriptExport';
+import { ConnectionState, SubtitleData, PronunciationFeedback, PronunciationFeedbackEvent, GrammarErrorEvent, ConversationTurn, Lesson, LessonFile, MicMode, MicSettings, PlaybackSettings, InputLevel, VadSettings, ArchivedSession, ReviewCard, ReviewGrade, PitchContour, SessionRecording, TutorPersona, OutputAudioFrame, AvatarExpression, SubtitleRevealMode, DisplaySettings } from './types';
+import { MessageSquare, BookOpen, Gauge, History, Layers, BarChart3, Languages } from 'lucide-react';
+
+interface SessionMeta {
+  id: string;
+  lessonId: string | null;
+  lessonTitle?: string;
+  speakingRate: number;
+  startedAt: number;
+}
 
 const App: React.FC = () => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [currentSubtitle, setCurrentSubtitle] = useState<SubtitleData | null>(null);
   const [pronunciationFeedback, setPronunciationFeedback] = useState<PronunciationFeedback | null>(null);
   const [history, setHistory] = useState<ConversationTurn[]>([]);
-  const [audioVolume, setAudioVolume] = useState(0);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [feedbackEvents, setFeedbackEvents] = useState<PronunciationFeedbackEvent[]>([]);
+  const [grammarErrors, setGrammarErrors] = useState<GrammarErrorEvent[]>([]);
+  // The learner's last contour, with the pinyin of the feedback that scored it once that arrives
+  const [userPitch, setUserPitch] = useState<{ contour: PitchContour; pinyin?: string } | null>(null);
+  // The model turn being voiced; per-frame audio levels stay in outputAudioRef so they do not re-render the app
+  const [playingReplayId, setPlayingReplayId] = useState<string | null>(null);
+  const [expression, setExpression] = useState<AvatarExpression>('neutral');
+  const [revealMode, setRevealMode] = useState<SubtitleRevealMode>('all');
+  // AI turns (by replayId) whose audio has finished playing, for the "after audio" reveal mode
+  const [heardReplayIds, setHeardReplayIds] = useState<Set<string>>(() => new Set());
+  const [error, setError] = useState<LiveServiceError | string | null>(null);
+  const [isMicSettingsOpen, setIsMicSettingsOpen] = useState(false);
   const [isLessonLibraryOpen, setIsLessonLibraryOpen] = useState(false);
   const [activeLesson, setActiveLesson] = useState<Lesson | null>(null);
   const [speakingRate, setSpeakingRate] = useState<number>(1.0);
+  const [persona, setPersona] = useState<TutorPersona>(DEFAULT_PERSONA);
+  const [isPastSessionsOpen, setIsPastSessionsOpen] = useState(false);
+  const [viewedSession, setViewedSession] = useState<ArchivedSession | null>(null);
+  const [leftTab, setLeftTab] = useState<'history' | 'mistakes'>('history');
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>([]);
+  const [isReviewDeckOpen, setIsReviewDeckOpen] = useState(false);
+  const [isProgressOpen, setIsProgressOpen] = useState(false);
+  const [viewedRecording, setViewedRecording] = useState<SessionRecording | null>(null);
+  const [importedLessons, setImportedLessons] = useState<Lesson[]>([]);
+  const [completedObjectives, setCompletedObjectives] = useState<string[]>([]);
+  const [micMode, setMicMode] = useState<MicMode>('handsFree');
+  // Last non-muted mode; a call's turn mode is fixed when it starts
+  const [turnMode, setTurnMode] = useState<'handsFree' | 'pushToTalk'>('handsFree');
+  const [callTurnMode, setCallTurnMode] = useState<'handsFree' | 'pushToTalk'>('handsFree');
+  const [isTalking, setIsTalking] = useState(false);
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+  const [vadSettings, setVadSettings] = useState<VadSettings>(loadVadSettings);
+  const [micSettings, setMicSettings] = useState<MicSettings>(loadMicSettings);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(loadDisplaySettings);
   
   const liveServiceRef = useRef<LiveApiService | null>(null);
+  const sessionMetaRef = useRef<SessionMeta | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const expressionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const playingReplayIdRef = useRef<string | null>(null);
+  const outputAudioRef = useRef<OutputAudioFrame | null>(null);
 
   useEffect(() => {
     // Initialize service on mount
     liveServiceRef.current = new LiveApiService({
-      onStateChange: (state) => setConnectionState(ConnectionState[state]),
-      onSubtitle: (data) => {
+      onStateChange: (state) => {
+        setConnectionState(ConnectionState[state]);
+        // A successful reconnect makes the "Reconnecting..." notice stale
+        if (state === 'CONNECTED') setError(prev => prev instanceof LiveServiceError && prev.retryable ? null : prev);
+      },
+      onSubtitle: (data, replayId) => {
         setCurrentSubtitle(data);
-        addHistoryItem('ai', data.hanzi, data.pinyin, data.english);
+        addHistoryItem('ai', data.hanzi, data.pinyin, data.english, replayId);
+      },
+      onPronunciationFeedback: (feedback) => {
+        setPronunciationFeedback(feedback);
+        setUserPitch(prev => prev && !prev.pinyin ? { ...prev, pinyin: feedback.pinyin } : prev);
+        showExpression(expressionForScore(feedback.score));
+        setFeedbackEvents(prev => [
+          ...prev,
+          { ...feedback, id: Date.now().toString() + Math.random(), timestamp: Date.now() }
+        ]);
       },
-      onPronunciationFeedback: (feedback) => setPronunciationFeedback(feedback),
+      onGrammarError: (report) => setGrammarErrors(prev => [
+        ...prev,
+        { ...report, id: Date.now().toString() + Math.random(), timestamp: Date.now() }
+      ]),
       onUserTranscript: (text) => addHistoryItem('user', text),
-      onAudioVolume: (vol) => setAudioVolume(vol),
-      onError: (msg) => setErrorMessage(msg),
+      onUserPitchContour: (contour) => setUserPitch({ contour }),
+      onExpression: (next) => showExpression(next),
+      onObjectiveComplete: (objectiveId) => setCompletedObjectives(prev => prev.includes(objectiveId) ? prev : [...prev, objectiveId]),
+      onOutputAudio: (frame) => { outputAudioRef.current = frame; },
+      onPlayingTurnChange: (replayId) => {
+        // A turn has been heard once its audio plays out, or once another turn (or an interruption) takes over the output
+        const previous = playingReplayIdRef.current;
+        playingReplayIdRef.current = replayId;
+        setPlayingReplayId(replayId);
+        if (previous) setHeardReplayIds(prev => prev.has(previous) ? prev : new Set([...prev, previous]));
+      },
+      onInputLevel: (level) => setInputLevel(level),
+      onError: (msg) => setError(msg),
     });
+    liveServiceRef.current.setVadSettings(vadSettings);
+    liveServiceRef.current.setMicSettings(micSettings);
+    liveServiceRef.current.setPlaybackRate(playbackSettings.rate);
+    liveServiceRef.current.setChineseScript(displaySettings.script);
 
     return () => {
       // Cleanup on unmount
       if (liveServiceRef.current) {
         liveServiceRef.current.stop();
       }
+      if (expressionTimerRef.current) clearTimeout(expressionTimerRef.current);
     };
   }, []);
 
-  const addHistoryItem = (role: 'user' | 'ai', text: string, pinyin?: string, translation?: string) => {
+  useEffect(() => {
+    listCards()
+      .then(setReviewCards)
+      .catch((e) => console.warn("Failed to load review deck:", e));
+    listImportedLessons()
+      .then(files => setImportedLessons(files.map(compileLesson)))
+      .catch((e) => console.warn("Failed to load imported lessons:", e));
+  }, []);
+
+  // Lets a reconnect that cannot resume the server session replay the recent conversation
+  useEffect(() => {
+    liveServiceRef.current?.setConversationHistory(history);
+  }, [history]);
+
+  // Persist the live session whenever it changes so it survives End Call, reconnects and reloads
+  useEffect(() => {
+    const meta = sessionMetaRef.current;
+    if (!meta || (history.length === 0 && feedbackEvents.length === 0 && grammarErrors.length === 0)) return;
+
+    saveSession({
+      ...meta,
+      endedAt: Date.now(),
+      turns: history,
+      feedback: feedbackEvents,
+      grammarErrors,
+      completedObjectives,
+    }).catch((e) => console.warn("Failed to archive session:", e));
+  }, [history, feedbackEvents, grammarErrors, completedObjectives]);
+
+  // Store the call audio once the call ends (End Call, server close or fatal error)
+  useEffect(() => {
+    if (connectionState !== ConnectionState.DISCONNECTED && connectionState !== ConnectionState.ERROR) return;
+    persistRecording();
+  }, [connectionState]);
+
+  const persistRecording = () => {
+    const recorder = recorderRef.current;
+    const meta = sessionMetaRef.current;
+    if (!recorder || !meta || !recorder.hasAudio()) return;
+    saveRecording(recorder.toRecording(meta.id))
+      .catch((e) => console.warn("Failed to save session recording:", e));
+  };
+
+  // Holds an expression for a few seconds, then relaxes; a new one replaces it and restarts the hold
+  const showExpression = (next: AvatarExpression) => {
+    if (expressionTimerRef.current) clearTimeout(expressionTimerRef.current);
+    setExpression(next);
+    expressionTimerRef.current = next === 'neutral' ? null : setTimeout(() => setExpression('neutral'), EXPRESSION_HOLD_MS);
+  };
+
+  const addHistoryItem = (role: 'user' | 'ai', text: string, pinyin?: string, translation?: string, replayId?: string) => {
     setHistory(prev => [
       ...prev,
       {
@@ -53,22 +203,42 @@ const App: React.FC = () => {
         text,
         pinyin,
         translation,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        replayId,
       }
     ]);
   };
 
   const handleConnect = async () => {
-    setErrorMessage(null);
-    setHistory([]); // Clear history on new connection
+    setError(null);
+    // The previous conversation is already archived, so the live view can start fresh
+    setHistory([]);
+    setFeedbackEvents([]);
+    setGrammarErrors([]);
     setCurrentSubtitle(null);
     setPronunciationFeedback(null);
+    setUserPitch(null);
+    setCompletedObjectives([]);
+    setViewedSession(null);
+    persistRecording();
+    recorderRef.current = new SessionRecorder();
+    liveServiceRef.current?.setRecorder(recorderRef.current);
+    sessionMetaRef.current = {
+      id: Date.now().toString() + Math.random(),
+      lessonId: activeLesson?.id || null,
+      lessonTitle: activeLesson?.title,
+      speakingRate,
+      startedAt: Date.now(),
+    };
     
+    setCallTurnMode(turnMode);
+    setIsTalking(false);
+
     // Use active lesson scenario if available
     const scenario = activeLesson ? activeLesson.scenario : undefined;
     
     if (liveServiceRef.current) {
-      await liveServiceRef.current.connect(scenario, speakingRate);
+      await liveServiceRef.current.connect(scenario, speakingRate, activeLesson?.objectives, persona);
     }
   };
 
@@ -76,19 +246,210 @@ const App: React.FC = () => {
     if (liveServiceRef.current) {
       liveServiceRef.current.stop();
       setConnectionState(ConnectionState.DISCONNECTED);
-      setAudioVolume(0);
+      outputAudioRef.current = null;
+      setInputLevel(null);
+      setIsTalking(false);
     }
   };
 
+  const handleMicModeChange = (mode: MicMode) => {
+    if (liveServiceRef.current && !liveServiceRef.current.setMicMode(mode)) return;
+    setMicMode(mode);
+    if (mode !== 'muted') setTurnMode(mode);
+    setIsTalking(false);
+  };
+
+  const handleVadSettingsChange = (settings: VadSettings) => {
+    setVadSettings(settings);
+    saveVadSettings(settings);
+    liveServiceRef.current?.setVadSettings(settings);
+  };
+
+  const handleMicSettingsChange = (settings: MicSettings) => {
+    setMicSettings(settings);
+    saveMicSettings(settings);
+    liveServiceRef.current?.setMicSettings(settings);
+  };
+
+  const handlePlaybackRateChange = (rate: number) => {
+    const settings = { ...playbackSettings, rate };
+    setPlaybackSettings(settings);
+    savePlaybackSettings(settings);
+    liveServiceRef.current?.setPlaybackRate(rate);
+  };
+
+  const script = displaySettings.script;
+  const toggleScript = () => {
+    const settings: DisplaySettings = { ...displaySettings, script: script === 'simplified' ? 'traditional' : 'simplified' };
+    setDisplaySettings(settings);
+    saveDisplaySettings(settings);
+    liveServiceRef.current?.setChineseScript(settings.script);
+  };
+
+  // Hanzi are stored as the model wrote them and converted for display, so toggling applies to everything already shown
+  const displayedSubtitle = useMemo(() => currentSubtitle && convertSubtitle(currentSubtitle, script), [currentSubtitle, script]);
+  const displayedHistory = useMemo(() => history.map(turn => convertTurn(turn, script)), [history, script]);
+  const displayedArchiveTurns = useMemo(() => viewedSession?.turns.map(turn => convertTurn(turn, script)) || [], [viewedSession, script]);
+  const displayedFeedback = useMemo(() => pronunciationFeedback && convertFeedback(pronunciationFeedback, script), [pronunciationFeedback, script]);
+  // Memoised so MistakesPanel only reloads every session's mistakes when the shown list changes
+  const shownGrammarErrors = useMemo(() => viewedSession ? viewedSession.grammarErrors || [] : grammarErrors, [viewedSession, grammarErrors]);
+  const latestGrammarError = grammarErrors[grammarErrors.length - 1];
+  const displayedGrammarError = useMemo(() => latestGrammarError && convertGrammarError(latestGrammarError, script), [latestGrammarError, script]);
+
+  // Stable so Controls does not re-register its Space key listeners on every render
+  const handleTalkStart = useCallback(() => {
+    liveServiceRef.current?.startTalking();
+    setIsTalking(true);
+  }, []);
+
+  const handleTalkEnd = useCallback(() => {
+    liveServiceRef.current?.stopTalking();
+    setIsTalking(false);
+  }, []);
+
   const handleLessonSelect = (lesson: Lesson | null) => {
     // If switching lessons while connected, disconnect first
     if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
         handleDisconnect();
     }
     setActiveLesson(lesson);
+    setCompletedObjectives([]);
     setIsLessonLibraryOpen(false);
+    // Start with the lesson's recommended tutor; the learner can still pick another one
+    const recommended = getPersona(lesson?.recommendedPersonaId);
+    if (recommended) setPersona(recommended);
+    setRevealMode(defaultRevealMode(lesson?.level));
+  };
+
+  const handleImportLesson = (file: LessonFile) => {
+    const lesson = compileLesson(file);
+    // Re-importing a file with the same id replaces the earlier version
+    setImportedLessons(prev => [...prev.filter(l => l.id !== lesson.id), lesson].sort((a, b) => a.title.localeCompare(b.title)));
+    if (activeLesson?.id === lesson.id) setActiveLesson(lesson);
+    saveImportedLesson(file).catch((e) => console.warn("Failed to save imported lesson:", e));
+  };
+
+  const handleDeleteLesson = (id: string) => {
+    setImportedLessons(prev => prev.filter(l => l.id !== id));
+    if (activeLesson?.id === id) setActiveLesson(null);
+    deleteImportedLesson(id).catch((e) => console.warn("Failed to delete imported lesson:", e));
+  };
+
+  const handleOpenArchivedSession = (session: ArchivedSession) => {
+    setViewedSession(session);
+    setViewedRecording(null);
+    setIsPastSessionsOpen(false);
+    getRecording(session.id)
+      .then(recording => setViewedRecording(recording || null))
+      .catch((e) => console.warn("Failed to load session recording:", e));
+  };
+
+  // The recording behind whatever HistoryPanel is showing: an archived session or the live call
+  const getDisplayedRecording = (): SessionRecording | null => {
+    if (viewedSession) return viewedRecording;
+    const meta = sessionMetaRef.current;
+    return recorderRef.current && meta ? recorderRef.current.snapshot(meta.id) : null;
+  };
+
+  // The live call's mic stays closed while a replay plays, so the speakers are not sent back to the model
+  const playLocally = (play: () => Promise<void>) => {
+    const service = liveServiceRef.current;
+    service?.beginLocalPlayback();
+    play()
+      .catch((e) => console.warn("Playback failed:", e))
+      .finally(() => service?.endLocalPlayback());
+  };
+
+  // Live AI turns replay the model audio kept in memory; older turns, user turns and archives use the recording.
+  // Returns false when the turn has no audio, so the caller can say so in place.
+  const handlePlayTurn = (turn: ConversationTurn, rate = 1): boolean => {
+    const buffers = !viewedSession && turn.replayId ? liveServiceRef.current?.getTurnAudio(turn.replayId) || [] : [];
+    if (buffers.length > 0) {
+      playLocally(() => playAudioBuffers(buffers, rate));
+      return true;
+    }
+    const recording = getDisplayedRecording();
+    const segment = recording ? findSegmentForTurn(recording, turn) : null;
+    if (!segment) return false;
+    playLocally(() => playSegment(segment, rate));
+    return true;
   };
 
+  // The subtitle on screen is always the latest AI turn of the live call
+  const lastAiTurn = useMemo(() => [...history].reverse().find(t => t.role === 'ai') || null, [history]);
+
+  const handleReplaySubtitle = (rate: number) => !!lastAiTurn && handlePlayTurn(lastAiTurn, rate);
+
+  // Lip sync follows the subtitle's pinyin only while that subtitle's own audio is playing
+  const lipSyncPinyin = lastAiTurn && lastAiTurn.replayId === playingReplayId ? lastAiTurn.pinyin : undefined;
+
+  // Only the live call has audio still to come; once it ends every line counts as heard
+  const isCallActive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING;
+  const isTurnAudioPending = (turn: ConversationTurn) => isCallActive && !!turn.replayId && !heardReplayIds.has(turn.replayId);
+
+  const getExportStamp = () => new Date(viewedSession?.startedAt || sessionMetaRef.current?.startedAt || Date.now()).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+
+  const handleExportAudio = (format: 'wav' | 'zip') => {
+    const recording = getDisplayedRecording();
+    if (!recording || recording.segments.length === 0) return;
+    const stamp = getExportStamp();
+    if (format === 'wav') {
+      downloadBytes(exportRecordingAsWav(recording), `mandarin-talk-${stamp}.wav`, 'audio/wav');
+    } else {
+      const turns = viewedSession ? viewedSession.turns : history;
+      downloadBytes(exportTurnClipsAsZip(recording, turns), `mandarin-talk-${stamp}-turns.zip`, 'application/zip');
+    }
+  };
+
+  // Exports what the panel shows, in the selected script
+  const handleExportTranscript = (format: TranscriptFormat, includeScores: boolean) => {
+    const meta = sessionMetaRef.current;
+    const source = viewedSession
+      ? {
+          title: viewedSession.lessonTitle || getLessonTitle(viewedSession.lessonId),
+          startedAt: viewedSession.startedAt,
+          turns: displayedArchiveTurns,
+          feedback: viewedSession.feedback.map(event => convertFeedback(event, script)),
+          recording: viewedRecording,
+        }
+      : {
+          title: meta ? meta.lessonTitle || getLessonTitle(meta.lessonId) : getLessonTitle(null),
+          startedAt: meta?.startedAt || history[0]?.timestamp || Date.now(),
+          turns: displayedHistory,
+          feedback: feedbackEvents.map(event => convertFeedback(event, script)),
+          recording: getDisplayedRecording(),
+        };
+    const { extension, mimeType } = TRANSCRIPT_FORMAT_INFO[format];
+    const text = exportTranscript(source, format, includeScores);
+    downloadBytes(new TextEncoder().encode(text), `mandarin-talk-${getExportStamp()}.${extension}`, `${mimeType};charset=utf-8`);
+  };
+
+  const handleSaveToDeck = (subtitle: SubtitleData) => {
+    if (reviewCards.some(card => convertScript(card.hanzi, script) === subtitle.hanzi.trim())) return;
+    const card = createReviewCard(subtitle);
+    setReviewCards(prev => [...prev, card]);
+    saveCard(card).catch((e) => console.warn("Failed to save review card:", e));
+  };
+
+  const handleSaveTurnToDeck = (turn: ConversationTurn) => {
+    handleSaveToDeck({ hanzi: turn.text, pinyin: turn.pinyin || '', english: turn.translation || '' });
+  };
+
+  const handleGradeCard = (card: ReviewCard, grade: ReviewGrade) => {
+    const updated = scheduleReview(card, grade);
+    setReviewCards(prev => prev.map(c => c.id === card.id ? updated : c).sort((a, b) => a.dueAt - b.dueAt));
+    saveCard(updated).catch((e) => console.warn("Failed to save review card:", e));
+  };
+
+  const handleDeleteCard = (id: string) => {
+    setReviewCards(prev => prev.filter(c => c.id !== id));
+    deleteCard(id).catch((e) => console.warn("Failed to delete review card:", e));
+  };
+
+  const displayedCards = useMemo(() => reviewCards.map(card => convertSubtitle(card, script)), [reviewCards, script]);
+  const savedHanzi = new Set(displayedCards.map(card => card.hanzi));
+  const dueCardCount = reviewCards.filter(card => isCardDue(card)).length;
+
   const toggleSpeakingRate = () => {
       // Cycle: 1.0 -> 0.8 -> 1.2 -> 1.0
       setSpeakingRate(prev => {
@@ -110,7 +471,7 @@ const App: React.FC = () => {
       
       {/* 3D Background / Avatar Layer */}
       <div className="absolute inset-0 z-0 pointer-events-none">
-        <Avatar3D volume={audioVolume} />
+        <Avatar3D audioRef={outputAudioRef} pinyin={lipSyncPinyin} expression={expression} avatar={persona.avatar} />
       </div>
 
       {/* Lesson Library Overlay */}
@@ -119,6 +480,31 @@ const App: React.FC = () => {
          onClose={() => setIsLessonLibraryOpen(false)} 
          onSelectLesson={handleLessonSelect}
          selectedLessonId={activeLesson?.id || null}
+         importedLessons={importedLessons}
+         onImportLesson={handleImportLesson}
+         onDeleteLesson={handleDeleteLesson}
+      />
+
+      {/* Past Sessions Overlay */}
+      <PastSessions
+         isOpen={isPastSessionsOpen}
+         onClose={() => setIsPastSessionsOpen(false)}
+         onOpenSession={handleOpenArchivedSession}
+      />
+
+      {/* Progress Dashboard Overlay */}
+      <ProgressDashboard
+         isOpen={isProgressOpen}
+         onClose={() => setIsProgressOpen(false)}
+      />
+
+      {/* Review Deck Overlay */}
+      <ReviewDeck
+         isOpen={isReviewDeckOpen}
+         onClose={() => setIsReviewDeckOpen(false)}
+         cards={displayedCards}
+         onGrade={handleGradeCard}
+         onDelete={handleDeleteCard}
       />
 
       {/* UI Overlay Layer */}
@@ -147,6 +533,14 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-2 lg:gap-4">
+                {/* Tutor Persona */}
+                <PersonaPicker
+                    selectedId={persona.id}
+                    recommendedId={activeLesson?.recommendedPersonaId}
+                    onSelect={setPersona}
+                    disabled={connectionState !== ConnectionState.DISCONNECTED}
+                />
+
                 {/* Speaking Rate Control */}
                 <button
                     onClick={toggleSpeakingRate}
@@ -162,6 +556,45 @@ const App: React.FC = () => {
                     <span className="w-12 text-center">{getSpeakingRateLabel()}</span>
                 </button>
 
+                {/* Simplified / Traditional */}
+                <button
+                    onClick={toggleScript}
+                    title={script === 'simplified' ? "Show Traditional characters" : "Show Simplified characters"}
+                    className="flex items-center gap-2 px-3 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all text-sm font-medium backdrop-blur-md"
+                >
+                    <Languages className="w-4 h-4" />
+                    <span>{script === 'simplified' ? '简体' : '繁體'}</span>
+                </button>
+
+                <button
+                    onClick={() => setIsReviewDeckOpen(true)}
+                    className="relative flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all text-sm font-medium backdrop-blur-md"
+                >
+                    <Layers className="w-4 h-4" />
+                    <span className="hidden sm:inline">Review</span>
+                    {dueCardCount > 0 && (
+                        <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-emerald-500 text-[10px] font-bold flex items-center justify-center">
+                            {dueCardCount}
+                        </span>
+                    )}
+                </button>
+
+                <button
+                    onClick={() => setIsProgressOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all text-sm font-medium backdrop-blur-md"
+                >
+                    <BarChart3 className="w-4 h-4" />
+                    <span className="hidden sm:inline">Progress</span>
+                </button>
+
+                <button
+                    onClick={() => setIsPastSessionsOpen(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all text-sm font-medium backdrop-blur-md"
+                >
+                    <History className="w-4 h-4" />
+                    <span className="hidden sm:inline">Past Sessions</span>
+                </button>
+
                 <button 
                     onClick={() => setIsLessonLibraryOpen(true)}
                     className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all text-sm font-medium backdrop-blur-md"
@@ -182,13 +615,15 @@ const App: React.FC = () => {
         </header>
 
         {/* Error Notification */}
-        {errorMessage && (
+        {error && (
             <div className="absolute top-24 left-1/2 transform -translate-x-1/2 z-50 w-[90%] max-w-md pointer-events-auto">
-                <div className="bg-red-500/90 backdrop-blur-md text-white px-6 py-4 rounded-2xl shadow-2xl flex items-center gap-3 border border-red-400/30 animate-in fade-in slide-in-from-top-4">
-                    <AlertCircle className="w-6 h-6 shrink-0" />
-                    <p className="font-medium text-sm">{errorMessage}</p>
-                    <button onClick={() => setErrorMessage(null)} className="ml-auto text-white/60 hover:text-white">✕</button>
-                </div>
+                <ErrorNotice
+                    error={error}
+                    canRecover={connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR}
+                    onRetry={handleConnect}
+                    onOpenMicSettings={() => setIsMicSettingsOpen(true)}
+                    onDismiss={() => setError(null)}
+                />
             </div>
         )}
 
@@ -206,14 +641,75 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 px-4 lg:px-6 pt-4 pb-32 w-full max-w-7xl mx-auto">
                 
                 {/* Left Column: Conversation History */}
-                <div className="hidden lg:block lg:col-span-1 h-[600px] pointer-events-auto rounded-2xl overflow-hidden shadow-2xl border border-white/5">
-                    <HistoryPanel history={history} />
+                <div className="hidden lg:flex lg:flex-col lg:col-span-1 h-[600px] pointer-events-auto rounded-2xl overflow-hidden shadow-2xl border border-white/5">
+                    <div className="flex shrink-0 bg-black/40 border-b border-white/10">
+                        {(['history', 'mistakes'] as const).map(tab => {
+                            const count = tab === 'mistakes' ? shownGrammarErrors.length : 0;
+                            return (
+                                <button
+                                    key={tab}
+                                    onClick={() => setLeftTab(tab)}
+                                    className={`flex-1 flex items-center justify-center gap-1.5 py-2 text-xs font-bold uppercase tracking-wider transition-colors ${leftTab === tab ? 'text-white border-b-2 border-indigo-400' : 'text-white/40 hover:text-white/70'}`}
+                                >
+                                    {tab === 'history' ? 'History' : 'Mistakes'}
+                                    {count > 0 && (
+                                        <span className="min-w-[18px] px-1 rounded-full bg-amber-500/80 text-white text-[10px] leading-4">{count}</span>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    <div className="flex-1 min-h-0">
+                        {leftTab === 'mistakes' ? (
+                            <MistakesPanel
+                                mistakes={shownGrammarErrors}
+                                sessionId={viewedSession ? viewedSession.id : sessionMetaRef.current?.id}
+                                script={script}
+                                archivedAt={viewedSession?.startedAt}
+                            />
+                        ) : viewedSession ? (
+                            <HistoryPanel
+                                history={displayedArchiveTurns}
+                                archivedAt={viewedSession.startedAt}
+                                onCloseArchive={() => setViewedSession(null)}
+                                savedHanzi={savedHanzi}
+                                onSaveToDeck={handleSaveTurnToDeck}
+                                onPlayTurn={viewedRecording ? handlePlayTurn : undefined}
+                                onExportAudio={viewedRecording ? handleExportAudio : undefined}
+                                hasRecordedAudio={!!viewedRecording?.segments.length}
+                                onExportTranscript={handleExportTranscript}
+                                revealMode={revealMode}
+                            />
+                        ) : (
+                            <HistoryPanel
+                                history={displayedHistory}
+                                savedHanzi={savedHanzi}
+                                onSaveToDeck={handleSaveTurnToDeck}
+                                onPlayTurn={handlePlayTurn}
+                                onExportAudio={handleExportAudio}
+                                hasRecordedAudio={!!recorderRef.current?.hasAudio()}
+                                onExportTranscript={handleExportTranscript}
+                                revealMode={revealMode}
+                                isAudioPending={isTurnAudioPending}
+                            />
+                        )}
+                    </div>
                 </div>
 
                 {/* Center Column: Avatar Space & Subtitles */}
                 <div className="lg:col-span-2 flex flex-col justify-end pointer-events-auto min-h-[300px] lg:min-h-0">
                    <div className="bg-black/40 backdrop-blur-md rounded-3xl p-6 lg:p-8 border border-white/10 shadow-2xl transition-all duration-500 hover:bg-black/50 mx-2 lg:mx-8">
-                     <SubtitleDisplay data={currentSubtitle} />
+                     <div className="flex justify-end mb-4">
+                        <RevealModePicker mode={revealMode} onChange={setRevealMode} />
+                     </div>
+                     <SubtitleDisplay
+                        data={displayedSubtitle}
+                        isSaved={!!displayedSubtitle && savedHanzi.has(displayedSubtitle.hanzi.trim())}
+                        onSave={handleSaveToDeck}
+                        onReplay={lastAiTurn ? handleReplaySubtitle : undefined}
+                        revealMode={revealMode}
+                        isAudioPending={!!lastAiTurn && isTurnAudioPending(lastAiTurn)}
+                     />
                      {!currentSubtitle && activeLesson && (
                         <div className="text-center text-indigo-200/60 text-sm mt-2">
                             Lesson: {activeLesson.title} — Press Start to Begin
@@ -225,7 +721,12 @@ const App: React.FC = () => {
                 {/* Right Column: Feedback Card */}
                 <div className="lg:col-span-1 flex flex-col items-center lg:items-end justify-start pt-2 lg:pt-10 pointer-events-auto">
                     <div className="w-full max-w-sm">
-                         <FeedbackCard feedback={pronunciationFeedback} />
+                         {activeLesson?.objectives && (
+                            <ObjectivesChecklist objectives={activeLesson.objectives} completedIds={completedObjectives} />
+                         )}
+                         <FeedbackCard feedback={displayedFeedback} />
+                         <PitchContourPanel contour={userPitch?.contour} pinyin={userPitch?.pinyin} />
+                         <GrammarCard report={displayedGrammarError} />
                     </div>
                 </div>
 
@@ -240,6 +741,21 @@ const App: React.FC = () => {
                 connectionState={connectionState} 
                 onConnect={handleConnect} 
                 onDisconnect={handleDisconnect} 
+                micMode={micMode}
+                onMicModeChange={handleMicModeChange}
+                callTurnMode={connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING ? callTurnMode : null}
+                isTalking={isTalking}
+                onTalkStart={handleTalkStart}
+                onTalkEnd={handleTalkEnd}
+                inputLevel={inputLevel}
+                vadSettings={vadSettings}
+                onVadSettingsChange={handleVadSettingsChange}
+                micSettings={micSettings}
+                onMicSettingsChange={handleMicSettingsChange}
+                isMicSettingsOpen={isMicSettingsOpen}
+                onMicSettingsOpenChange={setIsMicSettingsOpen}
+                playbackRate={playbackSettings.rate}
+                onPlaybackRateChange={handlePlaybackRateChange}
             />
         </div>
       </div>
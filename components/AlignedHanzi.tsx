@@ -0,0 +1,92 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { alignPinyinToHanzi, AlignedCharacter } from '../utils/pinyin';
+import { segmentWords } from '../utils/dictionary';
+import TonedPinyin, { TONE_COLOR_CLASSES, getSyllableTitle } from './TonedPinyin';
+import WordPopover from './WordPopover';
+
+interface AlignedHanziProps {
+  hanzi: string;
+  pinyin?: string;
+  hanziClassName?: string;
+  pinyinClassName?: string;
+  align?: 'center' | 'start';
+  lookup?: boolean; // Split into dictionary words that open a popover when tapped
+}
+
+const wordButtonClass = 'rounded-md hover:bg-white/10 focus:outline-none focus-visible:bg-white/10 transition-colors cursor-pointer';
+
+// Hanzi with each tone-coloured syllable stacked under its character.
+// Falls back to separate hanzi and pinyin lines when the syllable count does not match.
+const AlignedHanzi: React.FC<AlignedHanziProps> = ({ hanzi, pinyin, hanziClassName = '', pinyinClassName = '', align = 'center', lookup = false }) => {
+  const [selected, setSelected] = useState<{ word: string; start: number; anchor: DOMRect } | null>(null);
+  const closePopover = useCallback(() => setSelected(null), []);
+  // A new subtitle replaces the words the popover points at
+  useEffect(() => setSelected(null), [hanzi]);
+  const aligned = pinyin ? alignPinyinToHanzi(hanzi, pinyin) : null;
+  const segments = lookup ? segmentWords(hanzi) : null;
+
+  const openWord = (word: string, start: number, e: React.MouseEvent<HTMLElement>) => {
+    e.stopPropagation();
+    setSelected({ word, start, anchor: e.currentTarget.getBoundingClientRect() });
+  };
+
+  const popover = selected && <WordPopover word={selected.word} anchor={selected.anchor} onClose={closePopover} />;
+
+  if (!aligned) {
+    return (
+      <div className={`flex flex-col ${align === 'center' ? 'items-center' : 'items-start'}`}>
+        <div className={hanziClassName}>
+          {segments ? segments.map(segment => segment.isWord ? (
+            <span
+              key={segment.start}
+              role="button"
+              onClick={(e) => openWord(segment.text, segment.start, e)}
+              className={`${wordButtonClass} ${selected?.start === segment.start ? 'bg-white/15' : ''}`}
+            >
+              {segment.text}
+            </span>
+          ) : (
+            <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+          )) : hanzi}
+        </div>
+        {pinyin && <TonedPinyin pinyin={pinyin} className={pinyinClassName} />}
+        {popover}
+      </div>
+    );
+  }
+
+  const renderCharacter = ({ char, syllable }: AlignedCharacter, i: number) => (
+    <div key={i} className="flex flex-col items-center">
+      <span className={hanziClassName}>{char}</span>
+      <span
+        className={`${pinyinClassName} ${syllable ? TONE_COLOR_CLASSES[syllable.tone] : ''} ${syllable?.sandhiTone ? 'underline decoration-dotted underline-offset-4' : ''}`}
+        title={syllable ? getSyllableTitle(syllable) : undefined}
+      >
+        {syllable ? syllable.text : ' '}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className={`flex flex-wrap items-end ${align === 'center' ? 'justify-center' : 'justify-start'}`}>
+      {segments ? segments.map(segment => {
+        const characters = aligned.slice(segment.start, segment.start + Array.from(segment.text).length);
+        if (!segment.isWord) {
+          return <React.Fragment key={segment.start}>{characters.map((c, i) => renderCharacter(c, segment.start + i))}</React.Fragment>;
+        }
+        return (
+          <button
+            key={segment.start}
+            onClick={(e) => openWord(segment.text, segment.start, e)}
+            className={`flex items-end ${wordButtonClass} ${selected?.start === segment.start ? 'bg-white/15' : ''}`}
+          >
+            {characters.map((c, i) => renderCharacter(c, segment.start + i))}
+          </button>
+        );
+      }) : aligned.map(renderCharacter)}
+      {popover}
+    </div>
+  );
+};
+
+export default AlignedHanzi;
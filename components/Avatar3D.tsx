@@ -1,25 +1,32 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Sphere, OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
+import { AvatarExpression, AvatarStyle, Hairstyle, OutputAudioFrame } from '../types';
+import { DEFAULT_PERSONA } from '../data/personas';
+import { Viseme, buildLipSyncTimeline, chooseViseme } from '../utils/lipSync';
 
 interface Avatar3DProps {
-  volume: number; // 0 to 1
+  audioRef: React.MutableRefObject<OutputAudioFrame | null>; // The tutor's voice, updated every frame; null before the first call
+  pinyin?: string; // Subtitle of the turn being spoken, for the lip-sync timeline
+  expression?: AvatarExpression;
+  avatar?: AvatarStyle; // Defaults to the default persona's look
 }
 
 // --- Toon/Toy Materials ---
 
-const skinMaterial = new THREE.MeshStandardMaterial({
-  color: '#FFDFC4', // Fair skin tone
-  roughness: 0.7,   // Matte look
-  metalness: 0.0,
-});
-
-const hairMaterial = new THREE.MeshStandardMaterial({
-  color: '#3B2F2F', // Dark Brown
-  roughness: 0.8,
-  metalness: 0.0,
-});
+// Skin and hair follow the persona, so they are built per style (and disposed when it changes)
+const useStyleMaterials = (avatar: AvatarStyle) => {
+    const materials = useMemo(() => ({
+        skin: new THREE.MeshStandardMaterial({ color: avatar.skinTone, roughness: 0.7, metalness: 0.0 }), // Matte look
+        hair: new THREE.MeshStandardMaterial({ color: avatar.hairColor, roughness: 0.8, metalness: 0.0 }),
+        // Slightly warmer and darker than the skin
+        nose: new THREE.MeshStandardMaterial({ color: new THREE.Color(avatar.skinTone).lerp(new THREE.Color('#E07A5F'), 0.2), roughness: 0.6 }),
+    }), [avatar.skinTone, avatar.hairColor]);
+
+    useEffect(() => () => Object.values(materials).forEach(material => material.dispose()), [materials]);
+    return materials;
+};
 
 const eyeWhiteMaterial = new THREE.MeshStandardMaterial({ color: '#FFFFFF' });
 const eyeBlackMaterial = new THREE.MeshStandardMaterial({ color: '#111111' });
@@ -27,16 +34,38 @@ const blushMaterial = new THREE.MeshStandardMaterial({ color: '#FFB7B2', transpa
 
 // --- Parts ---
 
-const VISEMES = {
+const VISEMES: Record<Viseme, { mouthOpen: number, mouthWidth: number, lipPucker: number, tongueY: number }> = {
     sil: { mouthOpen: 0.05, mouthWidth: 0.8, lipPucker: 0, tongueY: -0.1 },
     aa:  { mouthOpen: 0.8,  mouthWidth: 0.9, lipPucker: 0, tongueY: 0 },
     ee:  { mouthOpen: 0.2,  mouthWidth: 1.2, lipPucker: 0, tongueY: -0.05 },
     ih:  { mouthOpen: 0.15, mouthWidth: 1.1, lipPucker: 0, tongueY: -0.05 },
     oh:  { mouthOpen: 0.6,  mouthWidth: 0.6, lipPucker: 0.8, tongueY: -0.05 },
     ou:  { mouthOpen: 0.3,  mouthWidth: 0.4, lipPucker: 1.2, tongueY: -0.05 },
+    yu:  { mouthOpen: 0.15, mouthWidth: 0.5, lipPucker: 1.0, tongueY: -0.02 },
+};
+
+// Facial poses layered over blinking, eye tracking and lip sync
+interface ExpressionPose {
+    browRaise: number; // Height offset of both eyebrows
+    browTilt: number; // Inner ends up (+, worried/kind) or down (-, frowning)
+    browAsymmetry: number; // Extra raise of the left eyebrow only, for a quizzical look
+    eyeOpen: number; // Eye height multiplier (< 1 is a squint)
+    gaze: [number, number]; // Pupil offset added to mouse tracking
+    smile: number; // Mouth curve: + corners up, - corners down
+    mouthOpen: number; // Extra openness on top of speech, e.g. a gasp
+    headTilt: number; // Head roll in radians
+}
+
+const EXPRESSION_POSES: Record<AvatarExpression, ExpressionPose> = {
+    neutral:     { browRaise: 0,    browTilt: 0,     browAsymmetry: 0,    eyeOpen: 1,    gaze: [0, 0],       smile: 0,    mouthOpen: 0,   headTilt: 0 },
+    smile:       { browRaise: 0.02, browTilt: 0,     browAsymmetry: 0,    eyeOpen: 0.75, gaze: [0, 0],       smile: 1,    mouthOpen: 0,   headTilt: 0.05 },
+    surprised:   { browRaise: 0.1,  browTilt: 0.1,   browAsymmetry: 0,    eyeOpen: 1.3,  gaze: [0, 0],       smile: 0,    mouthOpen: 0.5, headTilt: 0 },
+    thinking:    { browRaise: 0,    browTilt: -0.1,  browAsymmetry: 0.06, eyeOpen: 0.85, gaze: [0.08, 0.08], smile: -0.2, mouthOpen: 0,   headTilt: 0.12 },
+    encouraging: { browRaise: 0.04, browTilt: 0.15,  browAsymmetry: 0,    eyeOpen: 0.9,  gaze: [0, 0],       smile: 0.6,  mouthOpen: 0,   headTilt: -0.08 },
+    confused:    { browRaise: 0,    browTilt: -0.15, browAsymmetry: 0.08, eyeOpen: 0.95, gaze: [0, 0],       smile: -0.5, mouthOpen: 0,   headTilt: 0.15 },
 };
 
-const Eye = ({ side, mouse }: { side: 'left' | 'right', mouse: React.MutableRefObject<THREE.Vector2> }) => {
+const Eye = ({ side, mouse, pose }: { side: 'left' | 'right', mouse: React.MutableRefObject<THREE.Vector2>, pose: ExpressionPose }) => {
     const group = useRef<THREE.Group>(null);
     const pupil = useRef<THREE.Group>(null);
     const [blinking, setBlinking] = useState(false);
@@ -60,12 +89,12 @@ const Eye = ({ side, mouse }: { side: 'left' | 'right', mouse: React.MutableRefO
     useFrame(() => {
         if (group.current && pupil.current) {
             // Blink animation: scale Y to 0.05
-            const targetScale = blinking ? 0.05 : 1;
+            const targetScale = blinking ? 0.05 : pose.eyeOpen;
             group.current.scale.y = THREE.MathUtils.lerp(group.current.scale.y, targetScale, 0.4);
             
             // Eye Tracking (Subtle)
-            const targetX = mouse.current.x * 0.12;
-            const targetY = mouse.current.y * 0.12;
+            const targetX = mouse.current.x * 0.12 + pose.gaze[0];
+            const targetY = mouse.current.y * 0.12 + pose.gaze[1];
             
             pupil.current.position.x = THREE.MathUtils.lerp(pupil.current.position.x, targetX, 0.15);
             pupil.current.position.y = THREE.MathUtils.lerp(pupil.current.position.y, targetY, 0.15);
@@ -86,24 +115,26 @@ const Eye = ({ side, mouse }: { side: 'left' | 'right', mouse: React.MutableRefO
     );
 };
 
-const Eyebrow = ({ side }: { side: 'left' | 'right' }) => {
+const Eyebrow = ({ side, material, pose }: { side: 'left' | 'right', material: THREE.Material, pose: ExpressionPose }) => {
     const ref = useRef<THREE.Mesh>(null);
     useFrame((state) => {
         if (ref.current) {
             const t = state.clock.elapsedTime;
-            ref.current.position.y = 0.45 + Math.sin(t * 2) * 0.01;
-            ref.current.rotation.z = (side === 'left' ? 0.1 : -0.1) + Math.sin(t * 1.5) * 0.02;
+            const raise = pose.browRaise + (side === 'left' ? pose.browAsymmetry : 0);
+            // Mirrored, so a positive tilt lifts the inner end on both sides
+            const tilt = side === 'left' ? 0.1 + pose.browTilt : -0.1 - pose.browTilt;
+            ref.current.position.y = THREE.MathUtils.lerp(ref.current.position.y, 0.45 + raise + Math.sin(t * 2) * 0.01, 0.2);
+            ref.current.rotation.z = THREE.MathUtils.lerp(ref.current.rotation.z, tilt + Math.sin(t * 1.5) * 0.02, 0.2);
         }
     });
     return (
-        <mesh ref={ref} position={[side === 'left' ? -0.35 : 0.35, 0.45, 0.88]}>
+        <mesh ref={ref} position={[side === 'left' ? -0.35 : 0.35, 0.45, 0.88]} material={material}>
             <boxGeometry args={[0.25, 0.04, 0.05]} />
-            <meshStandardMaterial color="#3B2F2F" />
         </mesh>
     );
 };
 
-const Hair = () => {
+const BangsBunHair = ({ hairMaterial }: { hairMaterial: THREE.Material }) => {
     return (
         <group>
             {/* Main Hair Cap */}
@@ -137,14 +168,73 @@ const Hair = () => {
     );
 };
 
-const CartoonHead = ({ volume }: { volume: number }) => {
+const ShortHair = ({ hairMaterial }: { hairMaterial: THREE.Material }) => (
+    <group>
+        <Sphere args={[1.03, 32, 32]} position={[0, 0.18, -0.08]} material={hairMaterial} />
+        {/* Swept-up fringe */}
+        <group position={[0, 0.85, 0.7]} rotation={[0.6, 0, 0]}>
+            {[-0.3, 0, 0.3].map((x, i) => (
+                <mesh key={i} material={hairMaterial} position={[x, 0, 0]} rotation={[0, 0, x * 0.8]}>
+                    <coneGeometry args={[0.2, 0.45, 8]} />
+                </mesh>
+            ))}
+        </group>
+        <mesh material={hairMaterial} position={[-0.92, 0, 0.15]}>
+            <cylinderGeometry args={[0.1, 0.1, 0.4, 8]} />
+        </mesh>
+        <mesh material={hairMaterial} position={[0.92, 0, 0.15]}>
+            <cylinderGeometry args={[0.1, 0.1, 0.4, 8]} />
+        </mesh>
+    </group>
+);
+
+const LongHair = ({ hairMaterial }: { hairMaterial: THREE.Material }) => (
+    <group>
+        <Sphere args={[1.04, 32, 32]} position={[0, 0.1, -0.08]} material={hairMaterial} />
+        {/* Side-swept fringe */}
+        <mesh material={hairMaterial} position={[0.15, 0.72, 0.72]} rotation={[0.5, 0, 1.2]} scale={[0.35, 1, 0.25]}>
+            <sphereGeometry args={[0.55, 16, 16]} />
+        </mesh>
+        {/* Curtains falling past the shoulders */}
+        <mesh material={hairMaterial} position={[-0.88, -0.65, -0.05]} rotation={[0, 0, 0.08]}>
+            <boxGeometry args={[0.3, 1.7, 0.9]} />
+        </mesh>
+        <mesh material={hairMaterial} position={[0.88, -0.65, -0.05]} rotation={[0, 0, -0.08]}>
+            <boxGeometry args={[0.3, 1.7, 0.9]} />
+        </mesh>
+        <mesh material={hairMaterial} position={[0, -0.6, -0.6]}>
+            <boxGeometry args={[1.7, 1.8, 0.4]} />
+        </mesh>
+    </group>
+);
+
+const BuzzHair = ({ hairMaterial }: { hairMaterial: THREE.Material }) => (
+    // A thin cap over the top half of the head only
+    <mesh material={hairMaterial} position={[0, 0.05, -0.04]}>
+        <sphereGeometry args={[1.015, 32, 16, 0, Math.PI * 2, 0, Math.PI * 0.42]} />
+    </mesh>
+);
+
+const Hair = ({ hairstyle, hairMaterial }: { hairstyle: Hairstyle, hairMaterial: THREE.Material }) => {
+    switch (hairstyle) {
+        case 'short': return <ShortHair hairMaterial={hairMaterial} />;
+        case 'long': return <LongHair hairMaterial={hairMaterial} />;
+        case 'buzz': return <BuzzHair hairMaterial={hairMaterial} />;
+        default: return <BangsBunHair hairMaterial={hairMaterial} />;
+    }
+};
+
+const CartoonHead = ({ audioRef, pinyin, expression, avatar }: { audioRef: React.MutableRefObject<OutputAudioFrame | null>, pinyin?: string, expression: AvatarExpression, avatar: AvatarStyle }) => {
+    const { skin: skinMaterial, hair: hairMaterial, nose: noseMaterial } = useStyleMaterials(avatar);
     const mouthGroupRef = useRef<THREE.Group>(null);
     const mouthInnerRef = useRef<THREE.Mesh>(null);
     const tongueRef = useRef<THREE.Mesh>(null);
+    const smileRef = useRef<THREE.Mesh>(null);
     const headGroup = useRef<THREE.Group>(null);
     const { size } = useThree();
     const mouse = useRef(new THREE.Vector2());
-    const [currentViseme, setCurrentViseme] = useState(VISEMES.sil);
+    const lipSyncTimeline = useMemo(() => buildLipSyncTimeline(pinyin), [pinyin]);
+    const pose = EXPRESSION_POSES[expression];
     const lastVolume = useRef(0);
 
     // Update mouse position normalized (-1 to 1)
@@ -157,31 +247,22 @@ const CartoonHead = ({ volume }: { volume: number }) => {
         return () => window.removeEventListener('mousemove', handleMouseMove);
     }, [size]);
 
-    // Viseme logic: Cycle through visemes when volume is high
-    useEffect(() => {
-        if (volume > 0.05) {
-            const visemeKeys = Object.keys(VISEMES).filter(k => k !== 'sil');
-            const interval = setInterval(() => {
-                const randomKey = visemeKeys[Math.floor(Math.random() * visemeKeys.length)];
-                setCurrentViseme(VISEMES[randomKey as keyof typeof VISEMES]);
-            }, 120); // Faster cycle for more natural speech look
-            return () => clearInterval(interval);
-        } else {
-            setCurrentViseme(VISEMES.sil);
-        }
-    }, [volume > 0.05]);
-
     useFrame((state) => {
         const t = state.clock.elapsedTime;
+        // Read here rather than passed as a prop, so the voice animates the mouth without re-rendering React
+        const audio = audioRef.current;
+        const volume = audio?.volume ?? 0;
 
-        // Mouth Lip Sync with Visemes
+        // Mouth Lip Sync with Visemes: formant bands of the voice, guided by the subtitle's pinyin finals
         if (mouthGroupRef.current && mouthInnerRef.current && tongueRef.current) {
+            const currentViseme = VISEMES[chooseViseme(audio, lipSyncTimeline)];
+
             // Base openness from volume
             const volumeBoost = Math.max(0, volume * 1.2);
             
             // Interpolate towards viseme targets
-            const targetOpen = currentViseme.mouthOpen * (0.5 + volumeBoost);
-            const targetWidth = currentViseme.mouthWidth;
+            const targetOpen = currentViseme.mouthOpen * (0.5 + volumeBoost) + pose.mouthOpen;
+            const targetWidth = currentViseme.mouthWidth * (1 + Math.max(0, pose.smile) * 0.15);
             const targetPucker = currentViseme.lipPucker;
             const targetTongueY = currentViseme.tongueY;
 
@@ -196,6 +277,16 @@ const CartoonHead = ({ volume }: { volume: number }) => {
             tongueRef.current.position.y = THREE.MathUtils.lerp(tongueRef.current.position.y, targetTongueY, 0.2);
         }
 
+        // Expression mouth line: a U for a smile, flipped for a frown, flattened away when neutral
+        if (smileRef.current) {
+            const curve = THREE.MathUtils.lerp(smileRef.current.userData.curve ?? 0, pose.smile, 0.15);
+            smileRef.current.userData.curve = curve;
+            smileRef.current.visible = Math.abs(curve) > 0.02;
+            smileRef.current.rotation.z = curve >= 0 ? Math.PI : 0;
+            smileRef.current.position.y = curve >= 0 ? -0.38 : -0.5;
+            smileRef.current.scale.y = Math.abs(curve) * 0.6;
+        }
+
         // Head Tracking & Idle Animation
         if (headGroup.current) {
             // Idle Sway
@@ -209,6 +300,7 @@ const CartoonHead = ({ volume }: { volume: number }) => {
             // Combine
             headGroup.current.rotation.y = THREE.MathUtils.lerp(headGroup.current.rotation.y, idleX + lookX, 0.1);
             headGroup.current.rotation.x = THREE.MathUtils.lerp(headGroup.current.rotation.x, idleY + lookY, 0.1);
+            headGroup.current.rotation.z = THREE.MathUtils.lerp(headGroup.current.rotation.z, pose.headTilt, 0.08);
             
             // Subtle "Speaking" Nod
             if (volume > 0.1) {
@@ -224,18 +316,16 @@ const CartoonHead = ({ volume }: { volume: number }) => {
             <Sphere args={[1, 32, 32]} material={skinMaterial} />
 
             {/* Hair */}
-            <Hair />
+            <Hair hairstyle={avatar.hairstyle} hairMaterial={hairMaterial} />
 
             {/* Face Features */}
-            <Eye side="left" mouse={mouse} />
-            <Eye side="right" mouse={mouse} />
-            <Eyebrow side="left" />
-            <Eyebrow side="right" />
+            <Eye side="left" mouse={mouse} pose={pose} />
+            <Eye side="right" mouse={mouse} pose={pose} />
+            <Eyebrow side="left" material={hairMaterial} pose={pose} />
+            <Eyebrow side="right" material={hairMaterial} pose={pose} />
 
             {/* Nose (Simple Button) */}
-            <Sphere args={[0.08, 16, 16]} position={[0, -0.05, 0.95]} material={skinMaterial}>
-                 <meshStandardMaterial color="#FFC4A8" roughness={0.6} /> 
-            </Sphere>
+            <Sphere args={[0.08, 16, 16]} position={[0, -0.05, 0.95]} material={noseMaterial} />
 
             {/* Cheeks (Blush) */}
             <Sphere args={[0.18, 16, 16]} position={[-0.6, -0.15, 0.75]} material={blushMaterial} scale={[1, 0.6, 1]} />
@@ -266,6 +356,12 @@ const CartoonHead = ({ volume }: { volume: number }) => {
                 </mesh>
             </group>
 
+            {/* Smile / frown line */}
+            <mesh ref={smileRef} position={[0, -0.38, 0.96]} visible={false}>
+                <torusGeometry args={[0.2, 0.022, 8, 24, Math.PI]} />
+                <meshStandardMaterial color="#FF8A8A" />
+            </mesh>
+
             {/* Ears */}
             <Sphere args={[0.2, 16, 16]} position={[-0.95, 0, 0]} scale={[0.5, 1, 1]} material={skinMaterial} />
             <Sphere args={[0.2, 16, 16]} position={[0.95, 0, 0]} scale={[0.5, 1, 1]} material={skinMaterial} />
@@ -274,7 +370,7 @@ const CartoonHead = ({ volume }: { volume: number }) => {
     );
 };
 
-const Avatar3D: React.FC<Avatar3DProps> = ({ volume }) => {
+const Avatar3D: React.FC<Avatar3DProps> = ({ audioRef, pinyin, expression = 'neutral', avatar = DEFAULT_PERSONA.avatar }) => {
   return (
     <div className="w-full h-full">
       {/* 
@@ -299,7 +395,7 @@ const Avatar3D: React.FC<Avatar3DProps> = ({ volume }) => {
 
         {/* Position moved up and slightly scaled down to keep the face above subtitle overlay on Linux browsers */}
         <group position={[0, 3.0, 0]} scale={0.9}>
-             <CartoonHead volume={volume} />
+             <CartoonHead audioRef={audioRef} pinyin={pinyin} expression={expression} avatar={avatar} />
         </group>
 
         <OrbitControls
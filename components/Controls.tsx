@@ -1,19 +1,126 @@
-import React from 'react';
-import { Mic, MicOff, Phone, PhoneOff } from 'lucide-react';
-import { ConnectionState } from '../types';
+import React, { useEffect } from 'react';
+import { Mic, MicOff, Phone, PhoneOff, Hand, SlidersHorizontal, Snail } from 'lucide-react';
+import { ConnectionState, MicMode, MicSettings, InputLevel, VadSettings } from '../types';
+import MicSettingsPanel from './MicSettingsPanel';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../utils/timeStretch';
+import { isTypingTarget } from '../utils/keyboard';
 
 interface ControlsProps {
   connectionState: ConnectionState;
   onConnect: () => void;
   onDisconnect: () => void;
+  micMode: MicMode;
+  onMicModeChange: (mode: MicMode) => void;
+  // The turn mode the current call was started with; the other one is unavailable until the call ends
+  callTurnMode?: 'handsFree' | 'pushToTalk' | null;
+  isTalking: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+  inputLevel: InputLevel | null;
+  vadSettings: VadSettings;
+  onVadSettingsChange: (settings: VadSettings) => void;
+  micSettings: MicSettings;
+  onMicSettingsChange: (settings: MicSettings) => void;
+  // Controlled so an error notice can open the mic settings
+  isMicSettingsOpen: boolean;
+  onMicSettingsOpenChange: (open: boolean) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ connectionState, onConnect, onDisconnect }) => {
+// dBFS range shown by the level meter
+const METER_MIN_DB = -70;
+const METER_MAX_DB = -10;
+const toMeterFraction = (db: number) => Math.min(1, Math.max(0, (db - METER_MIN_DB) / (METER_MAX_DB - METER_MIN_DB)));
+
+const InputLevelMeter = ({ level, gateDb, isDimmed }: { level: InputLevel | null; gateDb: number | null; isDimmed: boolean }) => (
+  <div
+    className={`relative w-24 h-2.5 rounded-full bg-white/10 overflow-hidden transition-opacity ${isDimmed ? 'opacity-40' : ''}`}
+    title={level ? `${Math.round(level.db)} dB${level.isSpeech ? ' · speech' : ''}` : 'No input'}
+  >
+    <div
+      className={`h-full rounded-full transition-[width] duration-75 ${level?.isSpeech ? 'bg-emerald-400' : 'bg-gray-400'}`}
+      style={{ width: `${level ? toMeterFraction(level.db) * 100 : 0}%` }}
+    />
+    {gateDb !== null && (
+      <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-300/80" style={{ left: `${toMeterFraction(gateDb) * 100}%` }} />
+    )}
+  </div>
+);
+
+const formatRate = (rate: number) => `${Number(rate.toFixed(2))}x`;
+
+// Slows the tutor's voice locally; unlike the speaking-rate hint it works mid-call and always applies
+const PlaybackRateControl = ({ rate, onChange }: { rate: number; onChange: (rate: number) => void }) => (
+  <div className="flex flex-col items-center gap-1" title="Tutor playback speed">
+    <input
+      type="range" min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05}
+      value={rate}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-24 accent-indigo-400"
+    />
+    <button
+      onClick={() => onChange(1)}
+      title="Reset to normal speed"
+      className={`flex items-center gap-1 text-[10px] uppercase tracking-wider font-bold transition-colors ${rate !== 1 ? 'text-indigo-300' : 'text-gray-500 hover:text-gray-300'}`}
+    >
+      <Snail className="w-3 h-3" />
+      {formatRate(rate)}
+    </button>
+  </div>
+);
+
+const MIC_MODES: { mode: MicMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'handsFree', label: 'Hands-free', icon: <Mic className="w-4 h-4" /> },
+  { mode: 'pushToTalk', label: 'Push-to-talk', icon: <Hand className="w-4 h-4" /> },
+  { mode: 'muted', label: 'Muted', icon: <MicOff className="w-4 h-4" /> },
+];
+
+const Controls: React.FC<ControlsProps> = ({ connectionState, onConnect, onDisconnect, micMode, onMicModeChange, callTurnMode, isTalking, onTalkStart, onTalkEnd, inputLevel, vadSettings, onVadSettingsChange, micSettings, onMicSettingsChange, isMicSettingsOpen, onMicSettingsOpenChange, playbackRate, onPlaybackRateChange }) => {
   const isConnected = connectionState === ConnectionState.CONNECTED;
   const isConnecting = connectionState === ConnectionState.CONNECTING;
+  const isPushToTalkActive = isConnected && micMode === 'pushToTalk';
+
+  // Hold Space to talk; it still types into inputs and activates focused buttons other than ours
+  useEffect(() => {
+    if (!isPushToTalkActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) onTalkStart();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      onTalkEnd();
+    };
+    // Releasing Space in another window never reaches us
+    const handleBlur = () => onTalkEnd();
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [isPushToTalkActive, onTalkStart, onTalkEnd]);
 
   return (
-    <div className="flex items-center justify-center gap-6 p-6 bg-gray-900/80 backdrop-blur-md rounded-2xl shadow-2xl border border-gray-800">
+    <div className="relative flex items-center justify-center gap-6 p-6 bg-gray-900/80 backdrop-blur-md rounded-2xl shadow-2xl border border-gray-800">
+      {/* Mic Settings */}
+      {isMicSettingsOpen && (
+        <MicSettingsPanel
+          micSettings={micSettings}
+          onMicSettingsChange={onMicSettingsChange}
+          vadSettings={vadSettings}
+          onVadSettingsChange={onVadSettingsChange}
+          levelMeter={<InputLevelMeter level={isConnected ? inputLevel : null} gateDb={vadSettings.noiseGateDb} isDimmed={!isConnected} />}
+        />
+      )}
+
       {!isConnected ? (
         <button
           onClick={onConnect}
@@ -43,12 +150,72 @@ const Controls: React.FC<ControlsProps> = ({ connectionState, onConnect, onDisco
         </button>
       )}
 
-      {/* Visual Indicator for Mic Status (Passive) */}
-      <div className={`p-4 rounded-full transition-colors duration-300 ${isConnected ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-800 text-gray-500'}`}>
-        {isConnected ? <Mic className="w-6 h-6 animate-pulse" /> : <MicOff className="w-6 h-6" />}
+      {/* Mic Mode */}
+      <div className="flex items-center gap-1 p-1 rounded-full bg-gray-800 border border-white/5">
+        {MIC_MODES.map(({ mode, label, icon }) => {
+          const isLocked = !!callTurnMode && mode !== 'muted' && mode !== callTurnMode;
+          return (
+            <button
+              key={mode}
+              onClick={() => onMicModeChange(mode)}
+              disabled={isLocked}
+              title={isLocked ? `End the call to switch to ${label.toLowerCase()}` : label}
+              className={`p-2.5 rounded-full transition-colors ${
+                micMode === mode
+                  ? mode === 'muted' ? 'bg-rose-500/20 text-rose-300' : 'bg-blue-500/20 text-blue-300'
+                  : isLocked ? 'text-gray-600 cursor-not-allowed' : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              {icon}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Input Level */}
+      <div className="flex flex-col items-center gap-2">
+        <InputLevelMeter
+          level={isConnected ? inputLevel : null}
+          gateDb={vadSettings.enabled && micMode === 'handsFree' ? vadSettings.noiseGateDb : null}
+          isDimmed={!isConnected || micMode === 'muted'}
+        />
+        <button
+          onClick={() => onMicSettingsOpenChange(!isMicSettingsOpen)}
+          title="Microphone settings"
+          className={`flex items-center gap-1 text-[10px] uppercase tracking-wider font-bold transition-colors ${isMicSettingsOpen ? 'text-emerald-300' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+          Mic
+        </button>
       </div>
+
+      {/* Tutor Playback Speed */}
+      <PlaybackRateControl rate={playbackRate} onChange={onPlaybackRateChange} />
+
+      {/* Mic Status: hold-to-talk button in push-to-talk, otherwise a passive indicator */}
+      {isPushToTalkActive ? (
+        <button
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onTalkStart(); }}
+          onPointerUp={onTalkEnd}
+          onPointerCancel={onTalkEnd}
+          onContextMenu={(e) => e.preventDefault()}
+          title="Hold to talk (or hold Space)"
+          className={`flex items-center gap-2 px-5 py-4 rounded-full font-bold select-none touch-none transition-all duration-150 ${
+            isTalking ? 'bg-blue-500 text-white scale-105 shadow-lg shadow-blue-500/30' : 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+          }`}
+        >
+          <Mic className={`w-6 h-6 ${isTalking ? 'animate-pulse' : ''}`} />
+          <span className="hidden sm:inline">{isTalking ? 'Listening...' : 'Hold to Talk'}</span>
+        </button>
+      ) : (
+        <div className={`p-4 rounded-full transition-colors duration-300 ${
+          isConnected && micMode === 'handsFree' ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-800 text-gray-500'
+        }`}>
+          {isConnected && micMode === 'handsFree' ? <Mic className="w-6 h-6 animate-pulse" /> : <MicOff className="w-6 h-6" />}
+        </div>
+      )}
     </div>
   );
 };
 
-export default Controls;
\ No newline at end of file
+export default Controls;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertCircle, RotateCcw, SlidersHorizontal, KeyRound, Clock } from 'lucide-react';
+import { LiveServiceError } from '../services/liveServiceError';
+
+interface ErrorNoticeProps {
+  // Either a typed error from the live service or a plain message from the app itself
+  error: LiveServiceError | string;
+  // False while a reconnect is already under way, so the action buttons are hidden
+  canRecover: boolean;
+  onRetry: () => void;
+  onOpenMicSettings: () => void;
+  onDismiss: () => void;
+}
+
+const API_KEY_URL = 'https://aistudio.google.com/app/apikey';
+
+const actionClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/15 hover:bg-white/25 text-xs font-bold transition-colors';
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, canRecover, onRetry, onOpenMicSettings, onDismiss }) => {
+  const liveError = typeof error === 'string' ? null : error;
+  const message = typeof error === 'string' ? error : error.message;
+  const recovery = liveError && canRecover ? liveError.recovery : 'none';
+
+  return (
+    <div className="bg-red-500/90 backdrop-blur-md text-white px-6 py-4 rounded-2xl shadow-2xl border border-red-400/30 animate-in fade-in slide-in-from-top-4">
+      <div className="flex items-center gap-3">
+        <AlertCircle className="w-6 h-6 shrink-0" />
+        <p className="font-medium text-sm">{message}</p>
+        <button onClick={onDismiss} className="ml-auto text-white/60 hover:text-white">✕</button>
+      </div>
+
+      {liveError && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 pl-9">
+          {(recovery === 'retry' || recovery === 'retryLater') && (
+            <button onClick={onRetry} className={actionClass}>
+              {recovery === 'retryLater' ? <Clock className="w-3.5 h-3.5" /> : <RotateCcw className="w-3.5 h-3.5" />}
+              {recovery === 'retryLater' ? 'Try again' : 'Retry'}
+            </button>
+          )}
+          {recovery === 'openMicSettings' && (
+            <>
+              <button onClick={onOpenMicSettings} className={actionClass}>
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+                Open mic settings
+              </button>
+              <button onClick={onRetry} className={actionClass}>
+                <RotateCcw className="w-3.5 h-3.5" />
+                Retry
+              </button>
+            </>
+          )}
+          {recovery === 'checkApiKey' && (
+            <a href={API_KEY_URL} target="_blank" rel="noreferrer" className={actionClass}>
+              <KeyRound className="w-3.5 h-3.5" />
+              Check API key
+            </a>
+          )}
+          {/* Quoted in bug reports instead of the free-text message */}
+          <span className="ml-auto text-[10px] font-mono text-white/50" title={liveError.detail}>{liveError.code}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { PronunciationFeedback } from '../types';
+import TonedPinyin from './TonedPinyin';
 import { CheckCircle, AlertCircle, TrendingUp, X } from 'lucide-react';
 
 interface FeedbackCardProps {
@@ -80,7 +81,7 @@ const FeedbackCard: React.FC<FeedbackCardProps> = ({ feedback }) => {
                 <h3 className="text-xs uppercase tracking-wider font-bold text-white/60">Pronunciation Check</h3>
             </div>
             <div className="text-lg font-bold text-white leading-tight truncate">{feedback.userText}</div>
-            <div className="text-sm text-emerald-200/80 font-mono mb-2">{feedback.pinyin}</div>
+            <TonedPinyin pinyin={feedback.pinyin} className="block text-sm font-mono mb-2" />
         </div>
       </div>
       
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { GrammarError } from '../types';
+import { BookOpenCheck, X } from 'lucide-react';
+
+interface GrammarCardProps {
+  report: GrammarError | null;
+}
+
+const GrammarCard: React.FC<GrammarCardProps> = ({ report }) => {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (report) setVisible(true);
+  }, [report]);
+
+  if (!report || !visible) return null;
+
+  return (
+    <div className="relative mt-3 overflow-hidden backdrop-blur-xl rounded-2xl p-5 border shadow-2xl transition-all duration-500 animate-in slide-in-from-right-10 fade-in zoom-in-95 bg-amber-950/60 border-amber-500/30">
+      <button
+        onClick={() => setVisible(false)}
+        className="absolute top-2 right-2 text-white/40 hover:text-white transition-colors"
+      >
+        <X className="w-4 h-4" />
+      </button>
+
+      <div className="flex items-center gap-2 mb-2 pr-6">
+        <h3 className="text-xs uppercase tracking-wider font-bold text-white/60">Grammar Check</h3>
+        <span className="px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300 text-[10px] font-bold truncate">{report.grammarPoint}</span>
+      </div>
+      <div className="text-base text-rose-300/80 line-through decoration-rose-400/60 leading-tight">{report.learnerSentence}</div>
+      <div className="text-lg font-bold text-white leading-tight mt-1">{report.correctedSentence}</div>
+
+      <div className="mt-3 pt-3 border-t border-white/10 flex items-start gap-2">
+         <BookOpenCheck className="w-5 h-5 mt-0.5 shrink-0 text-amber-400" />
+         <p className="text-sm text-gray-200 leading-relaxed">{report.explanation}</p>
+      </div>
+    </div>
+  );
+};
+
+export default GrammarCard;
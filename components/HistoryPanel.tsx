@@ -1,13 +1,51 @@
-import React, { useEffect, useRef } from 'react';
-import { ConversationTurn } from '../types';
-import { User, Bot } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { ConversationTurn, SubtitleLayer, SubtitleRevealMode } from '../types';
+import AlignedHanzi from './AlignedHanzi';
+import LayerRevealButtons from './LayerRevealButtons';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import { User, Bot, X, Bookmark, BookmarkCheck, Play, Snail, Download, FileArchive } from 'lucide-react';
+import { SLOW_REPLAY_RATE } from '../utils/timeStretch';
+import { getHiddenLayers } from '../utils/subtitleReveal';
+import { TranscriptFormat } from '../utils/transcriptExport';
 
 interface HistoryPanelProps {
   history: ConversationTurn[];
+  // Set when showing an archived session instead of the live conversation
+  archivedAt?: number;
+  onCloseArchive?: () => void;
+  // Review deck integration for AI turns
+  savedHanzi?: Set<string>;
+  onSaveToDeck?: (turn: ConversationTurn) => void;
+  // Per-turn replay (AI turns also at slow speed) and session audio export
+  onPlayTurn?: (turn: ConversationTurn, rate: number) => boolean; // False when the turn has no audio
+  onExportAudio?: (format: 'wav' | 'zip') => void;
+  hasRecordedAudio?: boolean;
+  onExportTranscript?: (format: TranscriptFormat, includeScores: boolean) => void;
+  // Same subtitle reveal mode as the live line; AI turns whose audio is still playing count as pending
+  revealMode?: SubtitleRevealMode;
+  isAudioPending?: (turn: ConversationTurn) => boolean;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history }) => {
+const hiddenClass = 'blur-sm select-none';
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, archivedAt, onCloseArchive, savedHanzi, onSaveToDeck, onPlayTurn, onExportAudio, hasRecordedAudio = true, onExportTranscript, revealMode = 'all', isAudioPending }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [revealedByTurn, setRevealedByTurn] = useState<Record<string, SubtitleLayer[]>>({});
+  // Turns whose replay found no audio show that in place of their play buttons
+  const [silentTurnIds, setSilentTurnIds] = useState<Set<string>>(() => new Set());
+
+  const playTurn = (turn: ConversationTurn, rate: number) => {
+    if (onPlayTurn && !onPlayTurn(turn, rate)) setSilentTurnIds(prev => new Set(prev).add(turn.id));
+  };
+
+  const getHidden = (turn: ConversationTurn) => {
+    const revealed = revealedByTurn[turn.id] || [];
+    return getHiddenLayers(revealMode, !!isAudioPending?.(turn)).filter(layer => !revealed.includes(layer));
+  };
+  const reveal = (turnId: string, layers: SubtitleLayer[]) => setRevealedByTurn(prev => ({
+    ...prev,
+    [turnId]: [...(prev[turnId] || []), ...layers],
+  }));
 
   // Auto-scroll to bottom when history updates
   useEffect(() => {
@@ -16,7 +54,7 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history }) => {
     }
   }, [history]);
 
-  if (history.length === 0) {
+  if (history.length === 0 && !archivedAt) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-gray-500 p-6 text-center border-r border-white/5 bg-black/20 backdrop-blur-sm">
         <p className="text-sm">Conversation history will appear here.</p>
@@ -26,12 +64,55 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history }) => {
 
   return (
     <div className="h-full flex flex-col bg-black/20 backdrop-blur-md border-r border-white/5 overflow-hidden">
-      <div className="p-4 border-b border-white/10 bg-black/20">
-        <h2 className="text-sm font-bold text-white/80 uppercase tracking-wider">Conversation History</h2>
+      <div className="p-4 border-b border-white/10 bg-black/20 flex items-center gap-2">
+        <div className="min-w-0">
+          <h2 className="text-sm font-bold text-white/80 uppercase tracking-wider">
+            {archivedAt ? 'Past Session' : 'Conversation History'}
+          </h2>
+          {archivedAt && (
+            <p className="text-[10px] text-gray-400 truncate">
+              {new Date(archivedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} · Read-only
+            </p>
+          )}
+        </div>
+        <div className="ml-auto flex items-center gap-1">
+          {onExportTranscript && history.length > 0 && <TranscriptExportMenu onExport={onExportTranscript} />}
+          {onExportAudio && (
+            <>
+              <button
+                onClick={() => onExportAudio('wav')}
+                disabled={!hasRecordedAudio}
+                title={hasRecordedAudio ? "Export session audio (WAV)" : "No recorded audio yet"}
+                className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onExportAudio('zip')}
+                disabled={!hasRecordedAudio}
+                title={hasRecordedAudio ? "Export per-turn clips (ZIP)" : "No recorded audio yet"}
+                className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <FileArchive className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          {onCloseArchive && (
+            <button
+              onClick={onCloseArchive}
+              title="Back to live conversation"
+              className="p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
       
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
-        {history.map((turn) => (
+        {history.map((turn) => {
+          const hidden = turn.role === 'ai' ? getHidden(turn) : [];
+          return (
           <div key={turn.id} className={`flex gap-3 ${turn.role === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
             
             {/* Avatar Icon */}
@@ -51,21 +132,78 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history }) => {
                 {/* AI Turn: Rich Content */}
                 {turn.role === 'ai' ? (
                   <div className="space-y-1">
-                    <p className="font-bold text-base">{turn.text}</p>
-                    {turn.pinyin && <p className="text-emerald-300 font-mono text-xs opacity-90">{turn.pinyin}</p>}
-                    {turn.translation && <p className="text-emerald-100/70 italic text-xs pt-1 border-t border-emerald-500/20 mt-1">{turn.translation}</p>}
+                    <div onClick={hidden.includes('hanzi') ? () => reveal(turn.id, ['hanzi']) : undefined} className={hidden.includes('hanzi') ? 'cursor-pointer' : ''}>
+                      <AlignedHanzi
+                        hanzi={turn.text}
+                        pinyin={turn.pinyin}
+                        align="start"
+                        hanziClassName={`font-bold text-base ${hidden.includes('hanzi') ? hiddenClass : ''}`}
+                        pinyinClassName={`font-mono text-[10px] px-0.5 ${hidden.includes('pinyin') ? hiddenClass : ''}`}
+                        lookup={!hidden.includes('hanzi')}
+                      />
+                    </div>
+                    {turn.translation && (
+                      <p
+                        onClick={hidden.includes('english') ? () => reveal(turn.id, ['english']) : undefined}
+                        className={`text-emerald-100/70 italic text-xs pt-1 border-t border-emerald-500/20 mt-1 ${hidden.includes('english') ? `${hiddenClass} cursor-pointer` : ''}`}
+                      >
+                        {turn.translation}
+                      </p>
+                    )}
+                    <LayerRevealButtons
+                      hidden={hidden.filter(layer => (layer !== 'pinyin' || turn.pinyin) && (layer !== 'english' || turn.translation))}
+                      onReveal={(layers) => reveal(turn.id, layers)}
+                      compact
+                    />
                   </div>
                 ) : (
                   // User Turn: Simple Text
                   <p>{turn.text}</p>
                 )}
               </div>
-              <span className="text-[10px] text-gray-500 mt-1 px-1">
-                {new Date(turn.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
+              <div className="flex items-center gap-2 mt-1 px-1">
+                <span className="text-[10px] text-gray-500">
+                  {new Date(turn.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                {onPlayTurn && silentTurnIds.has(turn.id) && (
+                  <span className="text-[10px] italic text-gray-600">No audio</span>
+                )}
+                {onPlayTurn && !silentTurnIds.has(turn.id) && (
+                  <button
+                    onClick={() => playTurn(turn, 1)}
+                    title="Replay"
+                    className="text-gray-500 hover:text-sky-300 transition-colors"
+                  >
+                    <Play className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {onPlayTurn && !silentTurnIds.has(turn.id) && turn.role === 'ai' && (
+                  <button
+                    onClick={() => playTurn(turn, SLOW_REPLAY_RATE)}
+                    title="Replay slowly"
+                    className="text-gray-500 hover:text-sky-300 transition-colors"
+                  >
+                    <Snail className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {turn.role === 'ai' && onSaveToDeck && (
+                  savedHanzi?.has(turn.text.trim()) ? (
+                    <span title="In review deck" className="text-emerald-400"><BookmarkCheck className="w-3.5 h-3.5" /></span>
+                  ) : (
+                    <button
+                      onClick={() => onSaveToDeck(turn)}
+                      title="Save to review deck"
+                      className="text-gray-500 hover:text-emerald-300 transition-colors"
+                    >
+                      <Bookmark className="w-3.5 h-3.5" />
+                    </button>
+                  )
+                )}
+              </div>
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
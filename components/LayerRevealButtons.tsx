@@ -0,0 +1,40 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { SubtitleLayer } from '../types';
+import { LAYER_LABELS, LAYER_SHORTCUTS, REVEAL_ALL_SHORTCUT } from '../utils/subtitleReveal';
+
+interface LayerRevealButtonsProps {
+  hidden: SubtitleLayer[];
+  onReveal: (layers: SubtitleLayer[]) => void;
+  compact?: boolean; // History bubbles: smaller and without shortcut hints
+}
+
+// One button per hidden subtitle layer, plus "all" when more than one is hidden
+const LayerRevealButtons: React.FC<LayerRevealButtonsProps> = ({ hidden, onReveal, compact = false }) => {
+  if (hidden.length === 0) return null;
+
+  const buttonClass = compact
+    ? 'px-1.5 py-0.5 rounded text-[10px] text-gray-400 bg-white/5 hover:text-white hover:bg-white/10 transition-colors'
+    : 'px-2.5 py-1 rounded-full text-xs text-gray-300 border border-white/10 hover:text-white hover:bg-white/10 transition-colors';
+  const shortcut = (key: string) => !compact && <kbd className="ml-1.5 font-mono text-[10px] text-gray-500 uppercase">{key}</kbd>;
+
+  return (
+    <div className={`flex flex-wrap items-center ${compact ? 'gap-1' : 'justify-center gap-2'}`}>
+      <Eye className={compact ? 'w-3 h-3 text-gray-500' : 'w-3.5 h-3.5 text-gray-500'} />
+      {hidden.map(layer => (
+        <button key={layer} onClick={() => onReveal([layer])} title={`Show ${LAYER_LABELS[layer]}`} className={buttonClass}>
+          {LAYER_LABELS[layer]}
+          {shortcut(LAYER_SHORTCUTS[layer])}
+        </button>
+      ))}
+      {hidden.length > 1 && (
+        <button onClick={() => onReveal(hidden)} title="Show everything" className={buttonClass}>
+          All
+          {shortcut(REVEAL_ALL_SHORTCUT)}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LayerRevealButtons;
@@ -1,13 +1,23 @@
-import React from 'react';
-import { LESSONS } from '../data/lessons';
-import { Lesson } from '../types';
-import { BookOpen, Sparkles, ShoppingBag, Coffee, Car, Briefcase, X } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { LESSONS, LESSON_FILE_TEMPLATE } from '../data/lessons';
+import { Lesson, LessonFile } from '../types';
+import { parseLessonFile } from '../utils/lessonSchema';
+import { downloadBytes } from '../utils/wav';
+import { BookOpen, Sparkles, ShoppingBag, Coffee, Car, Briefcase, X, Upload, FileDown, Trash2, AlertCircle } from 'lucide-react';
 
 interface LessonLibraryProps {
   onSelectLesson: (lesson: Lesson) => void;
   selectedLessonId: string | null;
   isOpen: boolean;
   onClose: () => void;
+  importedLessons?: Lesson[];
+  onImportLesson?: (file: LessonFile) => void;
+  onDeleteLesson?: (id: string) => void;
+}
+
+interface ImportErrors {
+  fileName: string;
+  errors: string[];
 }
 
 const getIconForTopic = (topic: string) => {
@@ -30,9 +40,35 @@ const getLevelColor = (level: string) => {
   }
 };
 
-const LessonLibrary: React.FC<LessonLibraryProps> = ({ onSelectLesson, selectedLessonId, isOpen, onClose }) => {
+const LessonLibrary: React.FC<LessonLibraryProps> = ({ onSelectLesson, selectedLessonId, isOpen, onClose, importedLessons = [], onImportLesson, onDeleteLesson }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<ImportErrors | null>(null);
+
   if (!isOpen) return null;
 
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after fixing it
+    if (!file || !onImportLesson) return;
+
+    const result = parseLessonFile(await file.text());
+    if (!result.lesson) {
+      setImportErrors({ fileName: file.name, errors: result.errors });
+      return;
+    }
+    if (LESSONS.some(l => l.id === result.lesson.id)) {
+      setImportErrors({ fileName: file.name, errors: [`id: "${result.lesson.id}" is already used by a built-in lesson.`] });
+      return;
+    }
+    setImportErrors(null);
+    onImportLesson(result.lesson);
+  };
+
+  const handleDownloadTemplate = () => {
+    const json = JSON.stringify(LESSON_FILE_TEMPLATE, null, 2);
+    downloadBytes(new TextEncoder().encode(json), 'lesson-template.json', 'application/json');
+  };
+
   return (
     <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
       <div className="w-full max-w-4xl h-[80vh] bg-gray-900 rounded-3xl border border-white/10 flex flex-col shadow-2xl overflow-hidden relative">
@@ -46,14 +82,51 @@ const LessonLibrary: React.FC<LessonLibraryProps> = ({ onSelectLesson, selectedL
              </h2>
              <p className="text-gray-400 text-sm mt-1">Select a structured conversation module to practice.</p>
           </div>
-          <button 
-             onClick={onClose}
-             className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
-          >
-             <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-2">
+            {onImportLesson && (
+              <>
+                <button
+                   onClick={handleDownloadTemplate}
+                   title="Download an example lesson file"
+                   className="flex items-center gap-2 px-3 py-2 rounded-full bg-white/5 hover:bg-white/10 border border-white/10 text-sm text-gray-300 transition-colors"
+                >
+                   <FileDown className="w-4 h-4" />
+                   <span className="hidden sm:inline">Template</span>
+                </button>
+                <button
+                   onClick={() => fileInputRef.current?.click()}
+                   title="Import a lesson file (.json)"
+                   className="flex items-center gap-2 px-3 py-2 rounded-full bg-indigo-600/80 hover:bg-indigo-500 text-sm font-medium text-white transition-colors"
+                >
+                   <Upload className="w-4 h-4" />
+                   <span className="hidden sm:inline">Import</span>
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+              </>
+            )}
+            <button 
+               onClick={onClose}
+               className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+            >
+               <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
+        {/* Import Errors */}
+        {importErrors && (
+          <div className="mx-6 mt-4 p-4 rounded-2xl bg-rose-500/10 border border-rose-500/30 text-sm">
+            <div className="flex items-center gap-2 font-bold text-rose-300">
+              <AlertCircle className="w-4 h-4 shrink-0" />
+              Could not import {importErrors.fileName}
+              <button onClick={() => setImportErrors(null)} className="ml-auto text-rose-300/60 hover:text-rose-200">✕</button>
+            </div>
+            <ul className="mt-2 space-y-1 text-rose-100/80 font-mono text-xs max-h-32 overflow-y-auto">
+              {importErrors.errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
         {/* Grid */}
         <div className="flex-1 overflow-y-auto p-6 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
@@ -80,41 +153,54 @@ const LessonLibrary: React.FC<LessonLibraryProps> = ({ onSelectLesson, selectedL
               </button>
 
               {/* Structured Lessons */}
-              {LESSONS.map((lesson) => (
-                <button
-                  key={lesson.id}
-                  onClick={() => onSelectLesson(lesson)}
-                  className={`text-left group relative p-5 rounded-2xl border transition-all duration-300 hover:scale-[1.02] flex flex-col h-full
-                    ${selectedLessonId === lesson.id 
-                      ? 'bg-indigo-900/40 border-indigo-500/50 shadow-indigo-500/10' 
-                      : 'bg-gray-800/50 border-white/5 hover:border-indigo-500/30 hover:bg-gray-800'
-                    }`}
-                >
-                   <div className="flex items-start justify-between mb-4">
-                      <div className={`p-3 rounded-xl ${
-                          selectedLessonId === lesson.id ? 'bg-indigo-500/20 text-indigo-400' : 'bg-gray-700/50 text-gray-400 group-hover:text-indigo-400'
-                      }`}>
-                          {getIconForTopic(lesson.topic)}
-                      </div>
-                      <span className={`text-[10px] font-bold px-2.5 py-1 rounded-full border ${getLevelColor(lesson.level)}`}>
-                          {lesson.level}
-                      </span>
-                  </div>
+              {[...LESSONS, ...importedLessons].map((lesson) => (
+                <div key={lesson.id} className="relative h-full">
+                  <button
+                    onClick={() => onSelectLesson(lesson)}
+                    className={`w-full text-left group relative p-5 rounded-2xl border transition-all duration-300 hover:scale-[1.02] flex flex-col h-full
+                      ${selectedLessonId === lesson.id 
+                        ? 'bg-indigo-900/40 border-indigo-500/50 shadow-indigo-500/10' 
+                        : 'bg-gray-800/50 border-white/5 hover:border-indigo-500/30 hover:bg-gray-800'
+                      }`}
+                  >
+                     <div className="flex items-start justify-between mb-4">
+                        <div className={`p-3 rounded-xl ${
+                            selectedLessonId === lesson.id ? 'bg-indigo-500/20 text-indigo-400' : 'bg-gray-700/50 text-gray-400 group-hover:text-indigo-400'
+                        }`}>
+                            {getIconForTopic(lesson.topic)}
+                        </div>
+                        <span className={`text-[10px] font-bold px-2.5 py-1 rounded-full border ${getLevelColor(lesson.level)}`}>
+                            {lesson.level}
+                        </span>
+                    </div>
                   
-                  <h3 className="text-lg font-bold text-white mb-2 group-hover:text-indigo-300 transition-colors">{lesson.title}</h3>
-                  <p className="text-sm text-gray-400 leading-relaxed mb-4 flex-1 line-clamp-3">
-                      {lesson.description}
-                  </p>
+                    <h3 className="text-lg font-bold text-white mb-2 group-hover:text-indigo-300 transition-colors">{lesson.title}</h3>
+                    <p className="text-sm text-gray-400 leading-relaxed mb-4 flex-1 line-clamp-3">
+                        {lesson.description}
+                    </p>
 
-                  <div className="flex items-center gap-2 pt-4 border-t border-white/5">
-                      <span className="text-xs text-gray-500 font-medium uppercase tracking-wider">{lesson.topic}</span>
-                      {selectedLessonId === lesson.id && (
-                          <span className="ml-auto text-xs font-bold text-indigo-400 flex items-center gap-1">
-                             Active <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse"></div>
-                          </span>
-                      )}
-                  </div>
-                </button>
+                    <div className="flex items-center gap-2 pt-4 border-t border-white/5">
+                        <span className="text-xs text-gray-500 font-medium uppercase tracking-wider">{lesson.topic}</span>
+                        {lesson.source === 'imported' && (
+                            <span className="text-[10px] text-indigo-300/70 font-bold uppercase tracking-wider">Imported</span>
+                        )}
+                        {selectedLessonId === lesson.id && (
+                            <span className={`ml-auto text-xs font-bold text-indigo-400 flex items-center gap-1 ${lesson.source === 'imported' && onDeleteLesson ? 'mr-8' : ''}`}>
+                               Active <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse"></div>
+                            </span>
+                        )}
+                    </div>
+                  </button>
+                  {lesson.source === 'imported' && onDeleteLesson && (
+                    <button
+                      onClick={() => onDeleteLesson(lesson.id)}
+                      title="Remove imported lesson"
+                      className="absolute bottom-3 right-3 p-2 rounded-full text-gray-500 hover:text-rose-400 hover:bg-rose-500/10 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               ))}
            </div>
         </div>
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { MicSettings, VadSettings } from '../types';
+import { listInputDevices } from '../services/audioSettings';
+
+interface MicSettingsPanelProps {
+  micSettings: MicSettings;
+  onMicSettingsChange: (settings: MicSettings) => void;
+  vadSettings: VadSettings;
+  onVadSettingsChange: (settings: VadSettings) => void;
+  // Rendered under the noise gate slider so the gate can be tuned against the live level
+  levelMeter: React.ReactNode;
+}
+
+const PROCESSING_TOGGLES: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain' },
+];
+
+const MicSettingsPanel: React.FC<MicSettingsPanelProps> = ({ micSettings, onMicSettingsChange, vadSettings, onVadSettingsChange, levelMeter }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Refresh while open so a newly plugged headset shows up without reopening the panel
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listInputDevices()
+        .then(list => { if (!cancelled) setDevices(list); })
+        .catch(e => console.warn("Failed to list microphones:", e));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+    };
+  }, []);
+
+  const hasLabels = devices.some(device => device.label);
+  const isSelectedMissing = !!micSettings.deviceId && !devices.some(device => device.deviceId === micSettings.deviceId);
+
+  return (
+    <div className="absolute bottom-full mb-3 right-0 w-72 max-h-[70vh] overflow-y-auto p-4 rounded-2xl bg-gray-900/95 backdrop-blur-md border border-white/10 shadow-2xl space-y-4 text-sm">
+      {/* Device */}
+      <label className="block space-y-1">
+        <span className="text-white font-medium">Microphone</span>
+        <select
+          value={micSettings.deviceId ?? ''}
+          onChange={(e) => onMicSettingsChange({ ...micSettings, deviceId: e.target.value || null })}
+          className="w-full px-2 py-1.5 rounded-lg bg-gray-800 border border-white/10 text-gray-200 focus:outline-none focus:border-emerald-500/50"
+        >
+          <option value="">System default</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${index + 1}`}</option>
+          ))}
+          {isSelectedMissing && <option value={micSettings.deviceId}>Unavailable device</option>}
+        </select>
+        {!hasLabels && devices.length > 0 && (
+          <p className="text-[10px] text-gray-500">Device names appear after you allow microphone access.</p>
+        )}
+        {isSelectedMissing && (
+          <p className="text-[10px] text-yellow-400/80">The chosen microphone is not connected; the default is used instead.</p>
+        )}
+      </label>
+
+      {/* Browser Processing */}
+      <div className="space-y-2">
+        {PROCESSING_TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center justify-between gap-3 text-gray-300">
+            {label}
+            <input
+              type="checkbox"
+              checked={micSettings[key]}
+              onChange={(e) => onMicSettingsChange({ ...micSettings, [key]: e.target.checked })}
+              className="accent-emerald-500 w-4 h-4"
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="block space-y-1">
+        <div className="flex justify-between text-gray-300">
+          <span>Input gain</span>
+          <span className="text-gray-500">{micSettings.inputGain.toFixed(1)}x</span>
+        </div>
+        <input
+          type="range" min={0.5} max={3} step={0.1}
+          value={micSettings.inputGain}
+          onChange={(e) => onMicSettingsChange({ ...micSettings, inputGain: Number(e.target.value) })}
+          className="w-full accent-emerald-500"
+        />
+      </label>
+
+      <div className="h-px bg-white/10" />
+
+      {/* Voice Detection */}
+      <label className="flex items-center justify-between gap-3 text-white font-medium">
+        Skip silence (voice detection)
+        <input
+          type="checkbox"
+          checked={vadSettings.enabled}
+          onChange={(e) => onVadSettingsChange({ ...vadSettings, enabled: e.target.checked })}
+          className="accent-emerald-500 w-4 h-4"
+        />
+      </label>
+      <label className={`block space-y-1 ${vadSettings.enabled ? '' : 'opacity-40'}`}>
+        <div className="flex justify-between text-gray-300">
+          <span>Noise gate</span>
+          <span className="text-gray-500">{vadSettings.noiseGateDb} dB</span>
+        </div>
+        <input
+          type="range" min={-70} max={-20} step={1}
+          value={vadSettings.noiseGateDb}
+          disabled={!vadSettings.enabled}
+          onChange={(e) => onVadSettingsChange({ ...vadSettings, noiseGateDb: Number(e.target.value) })}
+          className="w-full accent-yellow-400"
+        />
+        {levelMeter}
+        <p className="text-[10px] text-gray-500">Raise the gate (yellow mark) above the meter's level when you are silent.</p>
+      </label>
+      <label className={`block space-y-1 ${vadSettings.enabled ? '' : 'opacity-40'}`}>
+        <div className="flex justify-between text-gray-300">
+          <span>Keep listening after you stop</span>
+          <span className="text-gray-500">{vadSettings.hangoverMs} ms</span>
+        </div>
+        <input
+          type="range" min={200} max={2000} step={100}
+          value={vadSettings.hangoverMs}
+          disabled={!vadSettings.enabled}
+          onChange={(e) => onVadSettingsChange({ ...vadSettings, hangoverMs: Number(e.target.value) })}
+          className="w-full accent-emerald-500"
+        />
+      </label>
+      <p className="text-[10px] text-gray-500">Voice detection applies in hands-free mode. Push-to-talk sends everything while held.</p>
+    </div>
+  );
+};
+
+export default MicSettingsPanel;
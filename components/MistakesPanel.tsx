@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ChineseScript, GrammarErrorEvent } from '../types';
+import { listSessions } from '../services/sessionArchive';
+import { groupMistakesByPoint, GrammarPointGroup } from '../utils/grammarMistakes';
+import { convertGrammarError, convertScript } from '../utils/scriptConversion';
+import AlignedHanzi from './AlignedHanzi';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface MistakesPanelProps {
+  mistakes: GrammarErrorEvent[]; // The live or archived session shown next to it
+  sessionId?: string;
+  script: ChineseScript;
+  archivedAt?: number;
+}
+
+type Scope = 'session' | 'all';
+
+const MistakeItem = ({ mistake, script, showDate }: { mistake: GrammarErrorEvent; script: ChineseScript; showDate?: boolean }) => {
+  const { learnerSentence, correctedSentence, grammarPoint, explanation } = convertGrammarError(mistake, script);
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/5 space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        {!showDate && <span className="px-2 py-0.5 rounded-full bg-amber-500/15 text-amber-300 text-[10px] font-bold truncate">{grammarPoint}</span>}
+        <span className="ml-auto shrink-0 text-[10px] text-gray-500">
+          {new Date(mistake.timestamp).toLocaleString([], showDate ? { dateStyle: 'medium', timeStyle: 'short' } : { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      </div>
+      <p className="text-rose-300/80 line-through decoration-rose-400/60">{learnerSentence}</p>
+      <AlignedHanzi hanzi={correctedSentence} align="start" hanziClassName="font-bold text-emerald-200" lookup />
+      <p className="text-xs text-gray-400">{explanation}</p>
+    </div>
+  );
+};
+
+// The "Mistakes" tab: grammar corrections the tutor reported through report_grammar_error
+const MistakesPanel: React.FC<MistakesPanelProps> = ({ mistakes, sessionId, script, archivedAt }) => {
+  const [scope, setScope] = useState<Scope>('session');
+  const [groups, setGroups] = useState<GrammarPointGroup[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // The live session is archived as it goes, but its latest reports may not be written yet
+  useEffect(() => {
+    if (scope !== 'all') return;
+    listSessions()
+      .then(sessions => {
+        setGroups(groupMistakesByPoint(sessions.map(session => session.id === sessionId ? { ...session, grammarErrors: mistakes } : session)));
+        setLoadError(null);
+      })
+      .catch((e) => {
+        console.error("Failed to load mistakes:", e);
+        setLoadError("Could not load your past sessions.");
+      });
+  }, [scope, sessionId, mistakes]);
+
+  const scopeButton = (value: Scope, label: string) => (
+    <button
+      onClick={() => setScope(value)}
+      className={`px-2.5 py-0.5 rounded-full text-[11px] font-medium transition-colors ${scope === value ? 'bg-amber-500/80 text-white' : 'text-gray-400 hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-black/20 backdrop-blur-md border-r border-white/5 overflow-hidden">
+      <div className="p-4 border-b border-white/10 bg-black/20 flex items-center gap-2">
+        <div className="min-w-0">
+          <h2 className="text-sm font-bold text-white/80 uppercase tracking-wider">Mistakes</h2>
+          <p className="text-[10px] text-gray-400 truncate">
+            {scope === 'all' ? 'Every session, by grammar point' : archivedAt ? 'From this past session' : 'From this conversation'}
+          </p>
+        </div>
+        <div className="ml-auto flex rounded-full bg-white/5 border border-white/10 p-0.5 shrink-0">
+          {scopeButton('session', 'Session')}
+          {scopeButton('all', 'All')}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+        {scope === 'session' && (
+          mistakes.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center pt-8">No grammar mistakes reported yet.</p>
+          ) : (
+            [...mistakes].reverse().map(mistake => <MistakeItem key={mistake.id} mistake={mistake} script={script} />)
+          )
+        )}
+
+        {scope === 'all' && (
+          loadError ? (
+            <p className="text-sm text-rose-300 text-center pt-8">{loadError}</p>
+          ) : !groups ? (
+            <p className="text-sm text-gray-500 text-center pt-8">Loading…</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center pt-8">No grammar mistakes in any session yet.</p>
+          ) : (
+            groups.map(group => {
+              const isExpanded = expanded === group.key;
+              return (
+                <div key={group.key} className="rounded-xl border border-white/5 bg-white/5 overflow-hidden">
+                  <button
+                    onClick={() => setExpanded(isExpanded ? null : group.key)}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-white/5 transition-colors"
+                  >
+                    {isExpanded ? <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-400 shrink-0" />}
+                    <span className="text-sm font-semibold text-amber-200 truncate">{convertScript(group.grammarPoint, script)}</span>
+                    <span className="ml-auto shrink-0 min-w-[20px] px-1.5 rounded-full bg-amber-500/20 text-amber-300 text-[10px] font-bold text-center">
+                      {group.mistakes.length}
+                    </span>
+                  </button>
+                  {isExpanded && (
+                    <div className="p-2 pt-0 space-y-2">
+                      {group.mistakes.map(mistake => <MistakeItem key={mistake.id} mistake={mistake} script={script} showDate />)}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MistakesPanel;
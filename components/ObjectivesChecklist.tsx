@@ -0,0 +1,66 @@
+import React from 'react';
+import { LessonObjective } from '../types';
+import { CheckCircle2, Circle, Trophy, ListChecks } from 'lucide-react';
+
+interface ObjectivesChecklistProps {
+  objectives: LessonObjective[];
+  completedIds: string[];
+}
+
+const ObjectivesChecklist: React.FC<ObjectivesChecklistProps> = ({ objectives, completedIds }) => {
+  if (objectives.length === 0) return null;
+
+  const completedCount = objectives.filter(o => completedIds.includes(o.id)).length;
+  const isComplete = completedCount === objectives.length;
+  // The first unfinished step is the one the tutor is working on
+  const currentId = objectives.find(o => !completedIds.includes(o.id))?.id;
+
+  return (
+    <div className={`mb-4 bg-gray-900/80 backdrop-blur-xl border rounded-2xl p-4 shadow-xl transition-colors duration-500 ${
+      isComplete ? 'border-emerald-500/50' : 'border-white/10'
+    }`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2 text-white/60 text-xs uppercase tracking-wider font-bold">
+          <ListChecks className="w-4 h-4" />
+          Lesson Objectives
+        </div>
+        <span className="text-xs font-bold text-gray-400">{completedCount}/{objectives.length}</span>
+      </div>
+
+      <div className="h-1.5 rounded-full bg-white/5 overflow-hidden mb-3">
+        <div
+          className="h-full rounded-full bg-emerald-500 transition-all duration-700"
+          style={{ width: `${(completedCount / objectives.length) * 100}%` }}
+        />
+      </div>
+
+      <ul className="space-y-2">
+        {objectives.map(objective => {
+          const done = completedIds.includes(objective.id);
+          return (
+            <li key={objective.id} className={`flex items-start gap-2 text-sm transition-colors ${
+              done ? 'text-emerald-300' : objective.id === currentId ? 'text-white' : 'text-gray-500'
+            }`}>
+              {done
+                ? <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" />
+                : <Circle className={`w-4 h-4 mt-0.5 shrink-0 ${objective.id === currentId ? 'text-indigo-400' : ''}`} />}
+              <span className={done ? 'line-through decoration-emerald-500/40' : ''}>{objective.description}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {isComplete && (
+        <div className="mt-4 flex items-center gap-3 p-3 rounded-xl bg-emerald-500/15 border border-emerald-500/30 animate-in fade-in zoom-in-95 duration-500">
+          <Trophy className="w-6 h-6 text-yellow-300 shrink-0" />
+          <div>
+            <p className="font-bold text-emerald-200 text-sm">Lesson complete!</p>
+            <p className="text-xs text-emerald-100/70">Keep chatting, or pick another lesson from the Library.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObjectivesChecklist;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { getLessonTitle } from '../data/lessons';
+import { ArchivedSession } from '../types';
+import { listSessions, deleteSession } from '../services/sessionArchive';
+import { deleteRecording } from '../services/sessionRecorder';
+import { History, Trash2, X, MessageSquare, Clock, CheckCircle2 } from 'lucide-react';
+
+interface PastSessionsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenSession: (session: ArchivedSession) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  return `${minutes} min`;
+};
+
+const PastSessions: React.FC<PastSessionsProps> = ({ isOpen, onClose, onOpenSession }) => {
+  const [sessions, setSessions] = useState<ArchivedSession[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listSessions()
+      .then(result => {
+        setSessions(result);
+        setLoadError(null);
+      })
+      .catch((e) => {
+        console.error("Failed to load session archive:", e);
+        setLoadError("Could not load past sessions.");
+      });
+  }, [isOpen]);
+
+  const handleDelete = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    try {
+      await deleteSession(id);
+      await deleteRecording(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl h-[80vh] bg-gray-900 rounded-3xl border border-white/10 flex flex-col shadow-2xl overflow-hidden relative">
+
+        {/* Header */}
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-black/40">
+          <div>
+             <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <History className="w-7 h-7 text-emerald-400" />
+                Past Sessions
+             </h2>
+             <p className="text-gray-400 text-sm mt-1">Reopen an earlier conversation to review it.</p>
+          </div>
+          <button
+             onClick={onClose}
+             className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+             <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          {loadError && <p className="text-sm text-rose-300">{loadError}</p>}
+          {!loadError && sessions.length === 0 && (
+            <p className="text-sm text-gray-500 text-center pt-10">No sessions recorded yet. Finished calls will show up here.</p>
+          )}
+
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onOpenSession(session)}
+              onKeyDown={(e) => { if (e.key === 'Enter') onOpenSession(session); }}
+              className="group flex items-center gap-4 p-4 rounded-2xl border border-white/5 bg-gray-800/50 hover:bg-gray-800 hover:border-emerald-500/30 transition-all cursor-pointer"
+            >
+              <div className="flex-1 min-w-0">
+                <h3 className="text-base font-bold text-white truncate group-hover:text-emerald-300 transition-colors">
+                  {session.lessonTitle || getLessonTitle(session.lessonId)}
+                </h3>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {new Date(session.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+              </div>
+              <div className="flex items-center gap-4 text-xs text-gray-400 shrink-0">
+                {!!session.completedObjectives?.length && (
+                  <span className="flex items-center gap-1 text-emerald-400" title="Objectives completed"><CheckCircle2 className="w-3.5 h-3.5" />{session.completedObjectives.length}</span>
+                )}
+                <span className="flex items-center gap-1"><MessageSquare className="w-3.5 h-3.5" />{session.turns.length}</span>
+                <span className="flex items-center gap-1"><Clock className="w-3.5 h-3.5" />{formatDuration(session.endedAt - session.startedAt)}</span>
+              </div>
+              <button
+                onClick={(e) => handleDelete(e, session.id)}
+                title="Delete session"
+                className="p-2 rounded-full text-gray-500 hover:text-rose-400 hover:bg-rose-500/10 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PastSessions;
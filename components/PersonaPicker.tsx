@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UserRound, Check, Sparkles } from 'lucide-react';
+import { TutorPersona } from '../types';
+import { TUTOR_PERSONAS, FORMALITY_LABELS } from '../data/personas';
+
+interface PersonaPickerProps {
+  selectedId: string;
+  recommendedId?: string; // From the active lesson
+  onSelect: (persona: TutorPersona) => void;
+  disabled: boolean; // The voice is fixed for the length of a call
+}
+
+// Hair over skin, as a tiny preview of the avatar
+const PersonaSwatch = ({ persona }: { persona: TutorPersona }) => (
+  <div className="relative w-9 h-9 shrink-0 rounded-full overflow-hidden border border-white/20" style={{ backgroundColor: persona.avatar.skinTone }}>
+    <div
+      className="absolute inset-x-0 top-0"
+      style={{ backgroundColor: persona.avatar.hairColor, height: persona.avatar.hairstyle === 'buzz' ? '25%' : '40%' }}
+    />
+  </div>
+);
+
+const PersonaPicker: React.FC<PersonaPickerProps> = ({ selectedId, recommendedId, onSelect, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selected = TUTOR_PERSONAS.find(p => p.id === selectedId) || TUTOR_PERSONAS[0];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (disabled) setIsOpen(false);
+  }, [disabled]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        title={disabled ? "Disconnect to change tutor" : "Choose your tutor"}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full border transition-all text-sm font-medium backdrop-blur-md
+          ${disabled
+            ? 'bg-white/5 border-white/5 text-gray-400 cursor-not-allowed'
+            : 'bg-white/10 hover:bg-white/20 border-white/10 hover:border-white/20'
+          }`}
+      >
+        <UserRound className="w-4 h-4" />
+        <span className="hidden sm:inline">{selected.chineseName}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 p-2 rounded-2xl bg-gray-900/95 backdrop-blur-md border border-white/10 shadow-2xl z-30 space-y-1">
+          {TUTOR_PERSONAS.map(persona => {
+            const isSelected = persona.id === selected.id;
+            return (
+              <button
+                key={persona.id}
+                onClick={() => { onSelect(persona); setIsOpen(false); }}
+                className={`w-full flex items-center gap-3 p-2.5 rounded-xl text-left transition-colors ${
+                  isSelected ? 'bg-emerald-500/15 border border-emerald-500/30' : 'border border-transparent hover:bg-white/5'
+                }`}
+              >
+                <PersonaSwatch persona={persona} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-sm text-white">{persona.chineseName}</span>
+                    <span className="text-xs text-gray-400">{persona.name}</span>
+                    {persona.id === recommendedId && (
+                      <span className="flex items-center gap-0.5 text-[10px] font-bold uppercase tracking-wider text-indigo-300">
+                        <Sparkles className="w-3 h-3" />
+                        Lesson pick
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-400 truncate">{persona.description}</p>
+                  <p className="text-[10px] text-gray-500">Voice: {persona.voiceName} · {FORMALITY_LABELS[persona.formality]}</p>
+                </div>
+                {isSelected && <Check className="w-4 h-4 text-emerald-400 shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaPicker;
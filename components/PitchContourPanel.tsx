@@ -0,0 +1,102 @@
+import React from 'react';
+import { PitchContour } from '../types';
+import { EXPECTED_TONE_CONTOURS, frequencyToChaoLevel, medianFrequency } from '../utils/pitch';
+import { annotateSandhi, segmentPinyin } from '../utils/pinyin';
+import { Activity } from 'lucide-react';
+
+interface PitchContourPanelProps {
+  contour: PitchContour | null;
+  pinyin?: string; // Pinyin of the sentence the learner attempted, used for the expected tone shapes
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING_X = 8;
+const PADDING_Y = 10;
+
+const toX = (time: number, duration: number) => PADDING_X + (time / duration) * (WIDTH - PADDING_X * 2);
+const toY = (level: number) => PADDING_Y + ((5 - level) / 4) * (HEIGHT - PADDING_Y * 2);
+
+const PitchContourPanel: React.FC<PitchContourPanelProps> = ({ contour, pinyin }) => {
+  if (!contour || contour.points.length === 0) return null;
+
+  const median = medianFrequency(contour.points);
+  if (!median) return null;
+
+  const { duration } = contour;
+  // Expected shapes follow the tones actually spoken, i.e. after sandhi
+  const syllables = pinyin ? annotateSandhi(segmentPinyin(pinyin)) : [];
+  const tones = syllables.map(s => s.sandhiTone ?? s.tone);
+  const segmentDuration = tones.length > 0 ? duration / tones.length : duration;
+
+  // Split the learner's track into separate polylines at unvoiced gaps
+  const learnerPaths: string[] = [];
+  let current: string[] = [];
+  contour.points.forEach(point => {
+    if (point.frequency === null) {
+      if (current.length > 1) learnerPaths.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${toX(point.time, duration).toFixed(1)},${toY(frequencyToChaoLevel(point.frequency, median)).toFixed(1)}`);
+  });
+  if (current.length > 1) learnerPaths.push(current.join(' '));
+
+  // Expected tone shapes, one per syllable, spread evenly across the utterance
+  const expectedPaths = tones.map((tone, index) => {
+    const shape = EXPECTED_TONE_CONTOURS[tone] || EXPECTED_TONE_CONTOURS[5];
+    const start = index * segmentDuration;
+    return shape.map((level, i) => {
+      const t = start + (i / (shape.length - 1)) * segmentDuration * 0.9;
+      return `${toX(t, duration).toFixed(1)},${toY(level).toFixed(1)}`;
+    }).join(' ');
+  });
+
+  return (
+    <div className="mt-3 backdrop-blur-xl rounded-2xl p-4 border border-white/10 bg-black/40 shadow-2xl animate-in fade-in">
+      <div className="flex items-center gap-2 mb-2">
+        <Activity className="w-4 h-4 text-sky-400" />
+        <h3 className="text-xs uppercase tracking-wider font-bold text-white/60">Your Tone Contour</h3>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {/* Chao scale grid lines (1 = low, 5 = high) */}
+        {[1, 2, 3, 4, 5].map(level => (
+          <line key={level} x1={0} x2={WIDTH} y1={toY(level)} y2={toY(level)} stroke="white" strokeOpacity={0.06} />
+        ))}
+
+        {/* Syllable boundaries */}
+        {tones.slice(1).map((_, i) => {
+          const x = toX((i + 1) * segmentDuration, duration);
+          return <line key={i} x1={x} x2={x} y1={0} y2={HEIGHT} stroke="white" strokeOpacity={0.1} strokeDasharray="2 3" />;
+        })}
+
+        {expectedPaths.map((points, i) => (
+          <polyline key={i} points={points} fill="none" stroke="#9CA3AF" strokeOpacity={0.6} strokeWidth={3} strokeDasharray="6 4" strokeLinecap="round" />
+        ))}
+
+        {learnerPaths.map((points, i) => (
+          <polyline key={i} points={points} fill="none" stroke="#38BDF8" strokeWidth={2.5} strokeLinejoin="round" strokeLinecap="round" />
+        ))}
+      </svg>
+
+      {tones.length > 0 && (
+        <div className="flex mt-1">
+          {syllables.map((syllable, i) => (
+            <span key={i} className="flex-1 text-center text-[10px] font-mono text-gray-400 truncate">
+              {syllable.text} <span className="opacity-60">{tones[i] === 5 ? '·' : tones[i]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 mt-2 text-[10px] text-gray-400">
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-sky-400 inline-block" /> You</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 border-t-2 border-dashed border-gray-400 inline-block" /> Expected</span>
+        <span className="ml-auto">{duration.toFixed(1)}s</span>
+      </div>
+    </div>
+  );
+};
+
+export default PitchContourPanel;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { getLessonTitle } from '../data/lessons';
+import { listSessions } from '../services/sessionArchive';
+import { computeProgressStats, ProgressStats, LOW_SCORE_THRESHOLD } from '../utils/progressStats';
+import { Tone } from '../utils/pinyin';
+import { TONE_COLOR_CLASSES } from './TonedPinyin';
+import { BarChart3, X, Clock, Target, Mic } from 'lucide-react';
+
+interface ProgressDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const TONE_LABELS: Record<Tone, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: 'Neutral' };
+const TONE_BAR_CLASSES: Record<Tone, string> = {
+  1: 'bg-rose-400', 2: 'bg-emerald-400', 3: 'bg-sky-400', 4: 'bg-purple-400', 5: 'bg-gray-400',
+};
+
+const getScoreColor = (score: number) => score >= 80 ? 'bg-emerald-500' : score >= 60 ? 'bg-yellow-500' : 'bg-rose-500';
+
+const StatTile = ({ icon, label, value }: { icon: React.ReactNode; label: string; value: string }) => (
+  <div className="p-4 rounded-2xl border border-white/5 bg-gray-800/50">
+    <div className="flex items-center gap-2 text-xs text-gray-400 uppercase tracking-wider font-bold">{icon}{label}</div>
+    <div className="text-2xl font-black text-white mt-1">{value}</div>
+  </div>
+);
+
+const ScoreTrendChart = ({ stats }: { stats: ProgressStats }) => {
+  const points = stats.days.filter(d => d.averageScore !== null);
+  if (points.length === 0) return <p className="text-sm text-gray-500">No pronunciation scores yet.</p>;
+
+  const step = points.length > 1 ? (CHART_WIDTH - CHART_PADDING * 2) / (points.length - 1) : 0;
+  const toY = (score: number) => CHART_PADDING + (1 - score / 100) * (CHART_HEIGHT - CHART_PADDING * 2);
+  const coords = points.map((d, i) => ({ x: CHART_PADDING + i * step, y: toY(d.averageScore!), day: d }));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {[0, 50, 100].map(score => (
+        <g key={score}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={toY(score)} y2={toY(score)} stroke="white" strokeOpacity={0.08} />
+          <text x={2} y={toY(score) + 4} fontSize={10} fill="#9CA3AF">{score}</text>
+        </g>
+      ))}
+      <polyline points={coords.map(c => `${c.x},${c.y}`).join(' ')} fill="none" stroke="#34D399" strokeWidth={2.5} strokeLinejoin="round" />
+      {coords.map(c => (
+        <g key={c.day.day}>
+          <circle cx={c.x} cy={c.y} r={4} fill="#34D399">
+            <title>{`${c.day.day}: ${Math.round(c.day.averageScore!)} (${c.day.attempts} attempts)`}</title>
+          </circle>
+          {points.length <= 14 && (
+            <text x={c.x} y={CHART_HEIGHT - 4} fontSize={9} fill="#9CA3AF" textAnchor="middle">{c.day.day.slice(5)}</text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ isOpen, onClose }) => {
+  const [stats, setStats] = useState<ProgressStats | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    listSessions()
+      .then(sessions => {
+        setStats(computeProgressStats(sessions));
+        setLoadError(null);
+      })
+      .catch((e) => {
+        console.error("Failed to load progress:", e);
+        setLoadError("Could not load your practice history.");
+      });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const maxToneCount = stats ? Math.max(1, ...Object.values(stats.weakTones)) : 1;
+  const maxDayMinutes = stats ? Math.max(1, ...stats.days.map(d => d.practiceMinutes)) : 1;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-4xl h-[80vh] bg-gray-900 rounded-3xl border border-white/10 flex flex-col shadow-2xl overflow-hidden relative">
+
+        {/* Header */}
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-black/40">
+          <div>
+             <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <BarChart3 className="w-7 h-7 text-emerald-400" />
+                Your Progress
+             </h2>
+             <p className="text-gray-400 text-sm mt-1">Pronunciation scores and practice time across all sessions.</p>
+          </div>
+          <button
+             onClick={onClose}
+             className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+             <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          {loadError && <p className="text-sm text-rose-300">{loadError}</p>}
+
+          {stats && (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <StatTile icon={<Clock className="w-3.5 h-3.5" />} label="Practice" value={`${Math.round(stats.totalPracticeMinutes)} min`} />
+                <StatTile icon={<Mic className="w-3.5 h-3.5" />} label="Attempts" value={String(stats.totalAttempts)} />
+                <StatTile icon={<Target className="w-3.5 h-3.5" />} label="Average Score" value={stats.overallAverage === null ? '–' : String(Math.round(stats.overallAverage))} />
+              </div>
+
+              {/* Score trend */}
+              <section>
+                <h3 className="text-xs uppercase tracking-wider font-bold text-white/60 mb-3">Score Trend (daily average)</h3>
+                <ScoreTrendChart stats={stats} />
+              </section>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Per lesson */}
+                <section>
+                  <h3 className="text-xs uppercase tracking-wider font-bold text-white/60 mb-3">Average Score by Lesson</h3>
+                  {stats.lessons.length === 0 && <p className="text-sm text-gray-500">No lessons practised yet.</p>}
+                  <div className="space-y-2">
+                    {stats.lessons.map(lesson => (
+                      <div key={lesson.lessonId || 'free'}>
+                        <div className="flex justify-between text-xs text-gray-300 mb-1">
+                          <span>{lesson.lessonTitle || getLessonTitle(lesson.lessonId)}</span>
+                          <span className="text-gray-500">{Math.round(lesson.averageScore)} · {lesson.attempts} attempts</span>
+                        </div>
+                        <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                          <div className={`h-full rounded-full ${getScoreColor(lesson.averageScore)}`} style={{ width: `${lesson.averageScore}%` }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                {/* Practice minutes */}
+                <section>
+                  <h3 className="text-xs uppercase tracking-wider font-bold text-white/60 mb-3">Practice Minutes</h3>
+                  {stats.days.length === 0 && <p className="text-sm text-gray-500">No sessions yet.</p>}
+                  <div className="flex items-end gap-1 h-32">
+                    {stats.days.slice(-21).map(day => (
+                      <div key={day.day} className="flex-1 flex flex-col items-center justify-end h-full" title={`${day.day}: ${Math.round(day.practiceMinutes)} min`}>
+                        <div className="w-full rounded-t bg-indigo-500/70" style={{ height: `${(day.practiceMinutes / maxDayMinutes) * 100}%` }} />
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                {/* Weak tones */}
+                <section>
+                  <h3 className="text-xs uppercase tracking-wider font-bold text-white/60 mb-1">Tones in Low-Scoring Attempts</h3>
+                  <p className="text-[10px] text-gray-500 mb-3">Syllables from attempts scoring {LOW_SCORE_THRESHOLD} or below.</p>
+                  <div className="space-y-2">
+                    {([1, 2, 3, 4, 5] as Tone[]).map(tone => (
+                      <div key={tone} className="flex items-center gap-3 text-xs">
+                        <span className={`w-14 font-bold ${TONE_COLOR_CLASSES[tone]}`}>{TONE_LABELS[tone]}</span>
+                        <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                          <div className={`h-full rounded-full ${TONE_BAR_CLASSES[tone]}`} style={{ width: `${(stats.weakTones[tone] / maxToneCount) * 100}%` }} />
+                        </div>
+                        <span className="w-6 text-right text-gray-400">{stats.weakTones[tone]}</span>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+
+                {/* Weak syllables */}
+                <section>
+                  <h3 className="text-xs uppercase tracking-wider font-bold text-white/60 mb-3">Most Frequent Weak Syllables</h3>
+                  {stats.weakSyllables.length === 0 && <p className="text-sm text-gray-500">Nothing here yet. Keep practising!</p>}
+                  <div className="flex flex-wrap gap-2">
+                    {stats.weakSyllables.map(({ syllable, count }) => (
+                      <span key={syllable} className="px-3 py-1 rounded-full bg-rose-500/10 border border-rose-500/20 text-rose-200 text-xs font-mono">
+                        {syllable} <span className="text-rose-300/60">×{count}</span>
+                      </span>
+                    ))}
+                  </div>
+                </section>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
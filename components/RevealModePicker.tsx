@@ -0,0 +1,32 @@
+import React from 'react';
+import { Captions } from 'lucide-react';
+import { SubtitleRevealMode } from '../types';
+import { REVEAL_MODES } from '../utils/subtitleReveal';
+
+interface RevealModePickerProps {
+  mode: SubtitleRevealMode;
+  onChange: (mode: SubtitleRevealMode) => void;
+}
+
+// Segmented control for how much of each AI line is shown up front
+const RevealModePicker: React.FC<RevealModePickerProps> = ({ mode, onChange }) => (
+  <div className="flex items-center gap-2">
+    <Captions className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+    <div className="flex rounded-full bg-white/5 border border-white/10 p-0.5">
+      {REVEAL_MODES.map(option => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          title={option.description}
+          className={`px-2.5 py-0.5 rounded-full text-[11px] font-medium transition-colors ${
+            mode === option.id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default RevealModePicker;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { isCardDue, describeNextInterval } from '../utils/srs';
+import TonedPinyin from './TonedPinyin';
+import { Layers, X, Trash2, RotateCcw } from 'lucide-react';
+
+interface ReviewDeckProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cards: ReviewCard[];
+  onGrade: (card: ReviewCard, grade: ReviewGrade) => void;
+  onDelete: (id: string) => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'bg-rose-600/80 hover:bg-rose-500' },
+  { grade: 3, label: 'Hard', className: 'bg-yellow-600/80 hover:bg-yellow-500' },
+  { grade: 4, label: 'Good', className: 'bg-emerald-600/80 hover:bg-emerald-500' },
+  { grade: 5, label: 'Easy', className: 'bg-indigo-600/80 hover:bg-indigo-500' },
+];
+
+const ReviewDeck: React.FC<ReviewDeckProps> = ({ isOpen, onClose, cards, onGrade, onDelete }) => {
+  const [showBack, setShowBack] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Refresh "now" when opened so cards that became due while closed are picked up
+  useEffect(() => {
+    if (isOpen) setNow(Date.now());
+  }, [isOpen]);
+
+  const dueCards = cards.filter(card => isCardDue(card, now));
+  const currentCard = dueCards[0] || null;
+
+  useEffect(() => {
+    setShowBack(false);
+  }, [currentCard?.id]);
+
+  if (!isOpen) return null;
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    onGrade(currentCard, grade);
+    setNow(Date.now());
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl h-[80vh] bg-gray-900 rounded-3xl border border-white/10 flex flex-col shadow-2xl overflow-hidden relative">
+
+        {/* Header */}
+        <div className="p-6 border-b border-white/10 flex items-center justify-between bg-black/40">
+          <div>
+             <h2 className="text-2xl font-bold text-white flex items-center gap-3">
+                <Layers className="w-7 h-7 text-emerald-400" />
+                Review Deck
+             </h2>
+             <p className="text-gray-400 text-sm mt-1">
+               {dueCards.length} due · {cards.length} saved
+             </p>
+          </div>
+          <button
+             onClick={onClose}
+             className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+             <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent">
+          {currentCard ? (
+            <div className="flex flex-col items-center gap-6">
+              {/* Card */}
+              <button
+                onClick={() => setShowBack(true)}
+                className="w-full min-h-[260px] rounded-3xl border border-white/10 bg-black/40 p-8 flex flex-col items-center justify-center text-center space-y-4 hover:bg-black/50 transition-colors"
+              >
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{currentCard.kind}</span>
+                <div className="text-4xl md:text-5xl font-black text-white tracking-wider">{currentCard.hanzi}</div>
+                {showBack ? (
+                  <>
+                    <TonedPinyin pinyin={currentCard.pinyin} className="text-xl md:text-2xl font-medium tracking-wide" />
+                    <div className="text-base md:text-lg text-gray-300 font-light italic border-t border-gray-700 pt-2 px-8">
+                      "{currentCard.english}"
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-gray-500 pt-4">Recall the pinyin and meaning, then tap to reveal</div>
+                )}
+              </button>
+
+              {/* Grades */}
+              {showBack && (
+                <div className="grid grid-cols-4 gap-3 w-full">
+                  {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      className={`flex flex-col items-center py-3 rounded-2xl text-white font-bold transition-colors ${className}`}
+                    >
+                      <span>{label}</span>
+                      <span className="text-[10px] font-medium opacity-70">{describeNextInterval(currentCard, grade)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="text-center pt-6 pb-2">
+                <RotateCcw className="w-10 h-10 text-emerald-400/60 mx-auto mb-3" />
+                <p className="text-white font-bold">All caught up!</p>
+                <p className="text-sm text-gray-400 mt-1">
+                  {cards.length === 0
+                    ? 'Save sentences from the conversation to start building your deck.'
+                    : 'Come back when more cards are due.'}
+                </p>
+              </div>
+
+              {cards.length > 0 && (
+                <div className="space-y-2">
+                  {cards.map(card => (
+                    <div key={card.id} className="flex items-center gap-4 p-3 rounded-2xl border border-white/5 bg-gray-800/50">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-white truncate">{card.hanzi}</p>
+                        <p className="text-xs text-emerald-300/80 truncate">{card.pinyin}</p>
+                      </div>
+                      <span className="text-[10px] text-gray-500 shrink-0">
+                        Due {new Date(card.dueAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                      </span>
+                      <button
+                        onClick={() => onDelete(card.id)}
+                        title="Remove card"
+                        className="p-2 rounded-full text-gray-500 hover:text-rose-400 hover:bg-rose-500/10 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewDeck;
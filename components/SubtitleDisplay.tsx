@@ -1,11 +1,50 @@
-import React from 'react';
-import { SubtitleData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { SubtitleData, SubtitleLayer, SubtitleRevealMode } from '../types';
+import AlignedHanzi from './AlignedHanzi';
+import LayerRevealButtons from './LayerRevealButtons';
+import { Bookmark, BookmarkCheck, Play, Snail } from 'lucide-react';
+import { SLOW_REPLAY_RATE } from '../utils/timeStretch';
+import { getHiddenLayers, layersForShortcut } from '../utils/subtitleReveal';
+import { isTypingTarget } from '../utils/keyboard';
 
 interface SubtitleDisplayProps {
   data: SubtitleData | null;
+  isSaved?: boolean;
+  onSave?: (data: SubtitleData) => void;
+  onReplay?: (rate: number) => boolean; // Plays the tutor's line again locally; false when it has no audio
+  revealMode?: SubtitleRevealMode;
+  isAudioPending?: boolean; // The line's own audio is still playing
 }
 
-const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ data }) => {
+const pillClass = 'flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-colors';
+// Hidden layers keep their size so revealing one does not shift the others
+const hiddenClass = 'blur-md select-none';
+
+const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ data, isSaved, onSave, onReplay, revealMode = 'all', isAudioPending = false }) => {
+  const [revealed, setRevealed] = useState<SubtitleLayer[]>([]);
+  const [hasNoAudio, setHasNoAudio] = useState(false);
+  // Every new line starts from the mode's defaults again
+  useEffect(() => {
+    setRevealed([]);
+    setHasNoAudio(false);
+  }, [data]);
+
+  const hidden = data ? getHiddenLayers(revealMode, isAudioPending).filter(layer => !revealed.includes(layer)) : [];
+  const reveal = (layers: SubtitleLayer[]) => setRevealed(prev => [...prev, ...layers.filter(l => !prev.includes(l))]);
+
+  // H, P and E reveal a single layer of the current line, A reveals all of them
+  const hasHidden = hidden.length > 0;
+  useEffect(() => {
+    if (!hasHidden) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const layers = layersForShortcut(e.key);
+      if (layers) reveal(layers);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hasHidden]);
+
   if (!data) {
     return (
       <div className="flex flex-col items-center justify-center h-48 text-gray-500 opacity-50">
@@ -16,20 +55,58 @@ const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ data }) => {
 
   return (
     <div className="flex flex-col items-center justify-center text-center space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
-      {/* Hanzi */}
-      <div className="text-4xl md:text-5xl font-black text-white tracking-wider drop-shadow-lg">
-        {data.hanzi}
-      </div>
-      
-      {/* Pinyin */}
-      <div className="text-xl md:text-2xl font-medium text-emerald-400 tracking-wide">
-        {data.pinyin}
+      {/* Hanzi with tone-coloured Pinyin aligned underneath. Hidden layers are blurred and revealed by tapping them. */}
+      <div onClick={hidden.includes('hanzi') ? () => reveal(['hanzi']) : undefined} className={hidden.includes('hanzi') ? 'cursor-pointer' : ''}>
+        <AlignedHanzi
+          hanzi={data.hanzi}
+          pinyin={data.pinyin}
+          hanziClassName={`text-4xl md:text-5xl font-black text-white tracking-wider drop-shadow-lg px-0.5 ${hidden.includes('hanzi') ? hiddenClass : ''}`}
+          pinyinClassName={`text-base md:text-xl font-medium tracking-wide px-1 mt-1 ${hidden.includes('pinyin') ? hiddenClass : ''}`}
+          lookup={!hidden.includes('hanzi')}
+        />
       </div>
       
       {/* English */}
-      <div className="text-base md:text-lg text-gray-300 font-light italic border-t border-gray-700 pt-2 px-8 mt-2">
+      <div
+        onClick={hidden.includes('english') ? () => reveal(['english']) : undefined}
+        className={`text-base md:text-lg text-gray-300 font-light italic border-t border-gray-700 pt-2 px-8 mt-2 ${hidden.includes('english') ? `${hiddenClass} cursor-pointer` : ''}`}
+      >
         "{data.english}"
       </div>
+
+      <LayerRevealButtons hidden={hidden} onReveal={reveal} />
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {onReplay && hasNoAudio && (
+          <span className={`${pillClass} border-white/5 text-gray-500 italic`}>No audio for this line</span>
+        )}
+        {onReplay && !hasNoAudio && (
+          <>
+            <button onClick={() => setHasNoAudio(!onReplay(1))} title="Replay" className={`${pillClass} border-white/10 text-gray-400 hover:text-white hover:bg-white/10`}>
+              <Play className="w-3.5 h-3.5" />
+              <span>Replay</span>
+            </button>
+            <button onClick={() => setHasNoAudio(!onReplay(SLOW_REPLAY_RATE))} title="Replay slowly" className={`${pillClass} border-white/10 text-gray-400 hover:text-white hover:bg-white/10`}>
+              <Snail className="w-3.5 h-3.5" />
+              <span>Slow</span>
+            </button>
+          </>
+        )}
+        {onSave && (
+          <button
+            onClick={() => onSave(data)}
+            disabled={isSaved}
+            className={`${pillClass}
+              ${isSaved
+                ? 'border-emerald-500/30 text-emerald-400 cursor-default'
+                : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/10'
+              }`}
+          >
+            {isSaved ? <BookmarkCheck className="w-3.5 h-3.5" /> : <Bookmark className="w-3.5 h-3.5" />}
+            <span>{isSaved ? 'Saved to deck' : 'Save to deck'}</span>
+          </button>
+        )}
+      </div>
     </div>
   );
 };
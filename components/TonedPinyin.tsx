@@ -0,0 +1,42 @@
+import React from 'react';
+import { segmentPinyin, validatePinyin, PinyinSyllable, Tone } from '../utils/pinyin';
+
+// Standard tone colours used by most learning tools (Pleco/Hanping style)
+export const TONE_COLOR_CLASSES: Record<Tone, string> = {
+  1: 'text-rose-400',
+  2: 'text-emerald-400',
+  3: 'text-sky-400',
+  4: 'text-purple-400',
+  5: 'text-gray-400',
+};
+
+export const getSyllableTitle = (syllable: PinyinSyllable) => {
+  const label = syllable.tone === 5 ? 'Neutral tone' : `Tone ${syllable.tone}`;
+  return syllable.sandhiTone ? `${label}, spoken as tone ${syllable.sandhiTone}` : label;
+};
+
+interface TonedPinyinProps {
+  pinyin: string;
+  className?: string;
+}
+
+// Renders pinyin with each syllable coloured by tone. Malformed model output is shown as plain text.
+const TonedPinyin: React.FC<TonedPinyinProps> = ({ pinyin, className = '' }) => {
+  if (!validatePinyin(pinyin).valid) {
+    return <span className={className}>{pinyin}</span>;
+  }
+
+  return (
+    <span className={className}>
+      {segmentPinyin(pinyin).map((token, i) => token.kind === 'separator' ? (
+        <React.Fragment key={i}>{token.text}</React.Fragment>
+      ) : (
+        <span key={i} className={TONE_COLOR_CLASSES[token.tone]} title={getSyllableTitle(token)}>
+          {token.text}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default TonedPinyin;
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { TRANSCRIPT_FORMATS, TranscriptFormat } from '../utils/transcriptExport';
+
+interface TranscriptExportMenuProps {
+  onExport: (format: TranscriptFormat, includeScores: boolean) => void;
+}
+
+// Header button that drops down the transcript formats; the scores choice sticks while the panel is open
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeScores, setIncludeScores] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        title="Export transcript"
+        className={`p-1 rounded-full transition-colors ${isOpen ? 'text-white bg-white/10' : 'text-white/40 hover:text-white hover:bg-white/10'}`}
+      >
+        <FileText className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-56 p-1 rounded-xl bg-gray-900/95 backdrop-blur-md border border-white/10 shadow-2xl animate-in fade-in">
+          <p className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">Export transcript</p>
+          {TRANSCRIPT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => {
+                onExport(format.id, includeScores);
+                setIsOpen(false);
+              }}
+              className="w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-lg text-left text-xs text-gray-200 hover:bg-white/10 transition-colors"
+            >
+              <span>{format.label}</span>
+              <span className="font-mono text-[10px] text-gray-500">.{format.extension}</span>
+            </button>
+          ))}
+          <label className="flex items-center gap-2 mt-1 px-3 py-2 border-t border-white/10 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeScores}
+              onChange={(e) => setIncludeScores(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Include pronunciation scores
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptExportMenu;
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { lookupWord, getCharacterBreakdown } from '../utils/dictionary';
+import TonedPinyin from './TonedPinyin';
+
+interface WordPopoverProps {
+  word: string;
+  anchor: DOMRect; // The tapped word, in viewport coordinates
+  onClose: () => void;
+}
+
+const WIDTH = 288;
+const MARGIN = 8;
+
+// Dictionary card for one segmented word. Rendered into <body> so scrolling panels and animated parents cannot clip it.
+const WordPopover: React.FC<WordPopoverProps> = ({ word, anchor, onClose }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const entries = lookupWord(word);
+  const characters = getCharacterBreakdown(word);
+  const traditional = entries.find(e => e.traditional !== word && e.simplified === word)?.traditional;
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    // The anchor position goes stale as soon as anything scrolls
+    const handleScroll = (e: Event) => {
+      if (!containerRef.current?.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('scroll', handleScroll, true);
+    window.addEventListener('resize', onClose);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('scroll', handleScroll, true);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  const left = Math.min(Math.max(MARGIN, anchor.left + anchor.width / 2 - WIDTH / 2), window.innerWidth - WIDTH - MARGIN);
+  // Open upwards when the word sits in the lower half of the screen (e.g. the subtitles)
+  const opensUp = anchor.top > window.innerHeight / 2;
+  const position: React.CSSProperties = opensUp
+    ? { left, bottom: window.innerHeight - anchor.top + MARGIN }
+    : { left, top: anchor.bottom + MARGIN };
+
+  return createPortal(
+    <div
+      ref={containerRef}
+      style={{ ...position, width: WIDTH }}
+      className="fixed z-50 max-h-[60vh] overflow-y-auto p-4 rounded-2xl bg-gray-900/95 backdrop-blur-md border border-white/10 shadow-2xl text-left text-white animate-in fade-in"
+    >
+      <div className="flex items-start gap-2">
+        <div className="min-w-0">
+          <span className="text-3xl font-bold">{word}</span>
+          {traditional && <span className="ml-2 text-lg text-gray-400" title="Traditional">{traditional}</span>}
+        </div>
+        <button onClick={onClose} className="ml-auto p-1 rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-400">Not in the bundled dictionary.</p>
+      ) : (
+        <div className="mt-2 space-y-2">
+          {entries.map((entry, i) => (
+            <div key={i}>
+              <TonedPinyin pinyin={entry.pinyin} className="text-base font-medium" />
+              <ol className="mt-0.5 list-decimal list-inside text-sm text-gray-300 space-y-0.5">
+                {entry.glosses.map((gloss, j) => <li key={j}>{gloss}</li>)}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+        <h4 className="text-[10px] font-bold uppercase tracking-wider text-gray-500">
+          {characters.length > 1 ? 'Characters' : 'Character'}
+        </h4>
+        {characters.map(({ char, entries: charEntries, radical }, i) => (
+          <div key={i} className="flex items-start gap-3">
+            <span className="text-2xl font-bold leading-none">{char}</span>
+            <div className="min-w-0 flex-1 text-xs">
+              {charEntries.length > 0 ? (
+                charEntries.map((entry, j) => (
+                  <p key={j} className="truncate text-gray-300">
+                    <TonedPinyin pinyin={entry.pinyin} className="font-medium" /> {entry.glosses.slice(0, 2).join('; ')}
+                  </p>
+                ))
+              ) : (
+                <p className="text-gray-500">No entry</p>
+              )}
+            </div>
+            {radical && (
+              <span className="shrink-0 px-1.5 py-0.5 rounded bg-white/10 text-xs text-gray-300" title="Radical (部首)">
+                部首 {radical}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default WordPopover;
@@ -0,0 +1,364 @@
+// A small bundled subset of CC-CEDICT (https://www.mdbg.net/chinese/dictionary?page=cc-cedict),
+// licensed CC BY-SA 4.0: the words and characters that come up in the built-in lessons plus everyday vocabulary.
+// Lines keep the CC-CEDICT format, "Traditional Simplified [pin1 yin1] /gloss/gloss/", so more entries can be
+// pasted straight from a CC-CEDICT release. Glosses are trimmed for the lookup popover.
+export const CEDICT_ENTRIES = `
+一 一 [yi1] /one; single; a (article); as soon as; entire; whole; all; throughout/
+二 二 [er4] /two; 2/
+兩 两 [liang3] /two; both; some; a few; tael, unit of weight equal to 50 grams/
+三 三 [san1] /three; 3/
+四 四 [si4] /four; 4/
+五 五 [wu3] /five; 5/
+六 六 [liu4] /six; 6/
+七 七 [qi1] /seven; 7/
+八 八 [ba1] /eight; 8/
+九 九 [jiu3] /nine; 9/
+十 十 [shi2] /ten; 10/
+百 百 [bai3] /hundred; numerous; all kinds of/
+千 千 [qian1] /thousand/
+你 你 [ni3] /you (informal, as opposed to courteous 您[nin2])/
+您 您 [nin2] /you (courteous, as opposed to informal 你[ni3])/
+我 我 [wo3] /I; me; my/
+他 他 [ta1] /he or him/
+她 她 [ta1] /she/
+它 它 [ta1] /it/
+們 们 [men5] /plural marker for pronouns, and nouns referring to individuals/
+你們 你们 [ni3 men5] /you (plural)/
+我們 我们 [wo3 men5] /we; us; ourselves; our/
+他們 他们 [ta1 men5] /they/
+咱 咱 [zan2] /we (including both the speaker and the person spoken to)/
+咱們 咱们 [zan2 men5] /we or us (including both the speaker and the person(s) spoken to)/
+大家 大家 [da4 jia1] /everyone; influential family; great expert/
+自 自 [zi4] /self; oneself; from; since; naturally; as a matter of course/
+己 己 [ji3] /self; oneself; sixth of the ten Heavenly Stems/
+自己 自己 [zi4 ji3] /oneself; one's own/
+這 这 [zhe4] /this; these/
+那 那 [na4] /that; those; then (in that case)/
+哪 哪 [na3] /how; which/
+這個 这个 [zhe4 ge5] /this; this one/
+那個 那个 [na4 ge5] /that one/
+裡 里 [li3] /lining; interior; inside; internal/
+哪裡 哪里 [na3 li3] /where?; somewhere; anywhere; wherever; (humble expression denying compliment)/
+這裡 这里 [zhe4 li3] /here/
+那裡 那里 [na4 li3] /there; that place/
+什 什 [shen2] /what/
+麼 么 [me5] /suffix, used to form interrogative 什麼|什么[shen2 me5], what?/
+什麼 什么 [shen2 me5] /what?; something; anything/
+怎 怎 [zen3] /how/
+樣 样 [yang4] /manner; pattern; way; appearance; shape; classifier: kind, type/
+怎麼 怎么 [zen3 me5] /how?; what?; why?/
+怎麼樣 怎么样 [zen3 me5 yang4] /how?; how about?; how was it?; how are things?/
+為 为 [wei4] /because of; for; to/
+為什麼 为什么 [wei4 shen2 me5] /why?; for what reason?/
+誰 谁 [shei2] /who; also pr. [shui2]/
+幾 几 [ji3] /how much; how many; several; a few/
+多 多 [duo1] /many; much; too many; in excess; (after a numeral) ... odd; how (to what extent)/
+少 少 [shao3] /few; less; to lack; to be missing; to stop (doing sth); seldom/
+多少 多少 [duo1 shao5] /how much; how many; which (number)/
+你好 你好 [ni3 hao3] /hello; hi/
+您好 您好 [nin2 hao3] /hello (polite, as opposed to more general 你好[ni3 hao3])/
+謝 谢 [xie4] /to thank; to apologize; to wither (of flowers, leaves etc); surname Xie/
+謝謝 谢谢 [xie4 xie5] /to thank; thanks; thank you/
+客 客 [ke4] /customer; visitor; guest/
+氣 气 [qi4] /gas; air; smell; weather; to make angry; vital energy; qi/
+客氣 客气 [ke4 qi5] /polite; courteous; formal; modest/
+不客氣 不客气 [bu4 ke4 qi5] /you're welcome; don't mention it; impolite; rude; blunt/
+起 起 [qi3] /to rise; to raise; to get up; to set out; to start; to appear/
+對 对 [dui4] /right; correct; couple; pair; towards; at; for; to face; opposite; to treat (sb a certain way)/
+對不起 对不起 [dui4 bu5 qi3] /unworthy; to let down; I'm sorry; excuse me; pardon me/
+關 关 [guan1] /mountain pass; to close; to shut; to turn off; to concern; to involve/
+係 系 [xi4] /to connect; to relate to; to tie up; to bind; to be (literary)/
+關係 关系 [guan1 xi5] /relation; relationship; to concern; to affect; to have to do with/
+沒關係 没关系 [mei2 guan1 xi5] /it doesn't matter/
+再 再 [zai4] /again; once more; re-; second; another; then (after sth, and not until then)/
+見 见 [jian4] /to see; to meet; to appear (to be sth); to interview/
+再見 再见 [zai4 jian4] /goodbye; see you again later/
+請 请 [qing3] /to ask; to invite; please (do something); to treat (to a meal etc); to request/
+問 问 [wen4] /to ask/
+請問 请问 [qing3 wen4] /Excuse me, may I ask...?/
+歡 欢 [huan1] /joyous; happy; pleased/
+迎 迎 [ying2] /to welcome; to meet; to face; to forge ahead (esp. in the face of difficulties)/
+歡迎 欢迎 [huan1 ying2] /to welcome; welcome/
+光 光 [guang1] /light; ray; bright; only; merely; to use up/
+臨 临 [lin2] /to face; to overlook; to arrive; to be (just) about to; just before/
+光臨 光临 [guang1 lin2] /(formal) to honor with one's presence; to attend/
+歡迎光臨 欢迎光临 [huan1 ying2 guang1 lin2] /welcome/
+認 认 [ren4] /to recognize; to know; to admit/
+識 识 [shi2] /to know; knowledge; Taiwan pr. [shi4]/
+認識 认识 [ren4 shi5] /to know; to recognize; to be familiar with; to get acquainted with sb; knowledge; understanding/
+高 高 [gao1] /high; tall; above average; loud; your (honorific)/
+興 兴 [xing4] /feeling or desire to do sth; interest in sth; excitement/
+高興 高兴 [gao1 xing4] /happy; glad; willing (to do sth); in a cheerful mood/
+幸 幸 [xing4] /fortunate; lucky/
+會 会 [hui4] /can (i.e. have the skill, know how to); likely to; sure to; to meet; to get together; meeting; gathering; union; group; association/
+幸會 幸会 [xing4 hui4] /nice to meet you/
+名 名 [ming2] /name; noun (part of speech); place (e.g. among winners); famous; classifier for people/
+字 字 [zi4] /letter; symbol; character; word/
+名字 名字 [ming2 zi5] /name (of a person or thing)/
+叫 叫 [jiao4] /to shout; to call; to order; to ask; to be called; by (indicates agent in the passive mood)/
+姓 姓 [xing4] /family name; surname; to be surnamed .../
+是 是 [shi4] /is; are; am; yes; to be/
+有 有 [you3] /to have; there is; there are; to exist; to be/
+沒 没 [mei2] /(negative prefix for verbs); have not; not/
+沒有 没有 [mei2 you3] /haven't; hasn't; doesn't exist; to not have; to not be/
+在 在 [zai4] /(located) at; (to be) in; to exist; in the middle of doing sth; (indicating an action in progress)/
+去 去 [qu4] /to go; to go to (a place); to leave; to remove; to get rid of/
+來 来 [lai2] /to come; to arrive; to come round; ever since; next/
+看 看 [kan4] /to see; to look at; to read; to watch; to visit; to call on; to consider; to regard as; to think/
+聽 听 [ting1] /to listen; to hear; to obey; a can (loanword from English "tin")/
+說 说 [shuo1] /to speak; to talk; to say; to explain; to scold; to tell off; a theory/
+話 话 [hua4] /dialect; language; spoken words; speech; talk; words; conversation; what sb said/
+說話 说话 [shuo1 hua4] /to speak; to say; to talk; to gossip; to tell stories; talk; word/
+讀 读 [du2] /to read out; to read aloud; to read; to attend (school); to study (a subject in school)/
+寫 写 [xie3] /to write/
+吃 吃 [chi1] /to eat; to consume; to eat at (a cafeteria etc); to take (medicine)/
+喝 喝 [he1] /to drink; to shout (a command)/
+飯 饭 [fan4] /cooked rice; meal/
+吃飯 吃饭 [chi1 fan4] /to have a meal; to eat; to make a living/
+做 做 [zuo4] /to make; to produce; to write; to compose; to do; to act as; to engage in; to hold (a party etc); to be; to become/
+工 工 [gong1] /work; worker; skill; profession; trade; craft; labor/
+作 作 [zuo4] /to do; to grow; to write or compose; to pretend; to regard as; to feel; writings or works/
+工作 工作 [gong1 zuo4] /to work; (of a machine) to operate; job; work; task/
+學 学 [xue2] /to learn; to study; to imitate; science; -ology/
+習 习 [xi2] /to practice; to study; habit/
+學習 学习 [xue2 xi2] /to learn; to study/
+生 生 [sheng1] /to be born; to give birth; life; to grow; raw; uncooked; student/
+學生 学生 [xue2 sheng5] /student; schoolchild/
+買 买 [mai3] /to buy; to purchase/
+賣 卖 [mai4] /to sell; to betray; to spare no effort; to show off or flaunt/
+單 单 [dan1] /bill; list; form; single; only; sole; odd number/
+買單 买单 [mai3 dan1] /to pay the restaurant bill/
+要 要 [yao4] /to want; to need; to ask for; will; shall; about to; need to; should; important/
+想 想 [xiang3] /to think; to believe; to suppose; to wish; to want; to miss/
+喜 喜 [xi3] /to be fond of; to like; to enjoy; to be happy; happiness; delight/
+喜歡 喜欢 [xi3 huan5] /to like; to be fond of/
+愛 爱 [ai4] /to love; to be fond of; to like; affection; to be inclined (to do sth)/
+知 知 [zhi1] /to know; to be aware/
+道 道 [dao4] /road; path; way; reason; principle; doctrine; to say; to speak; classifier for long thin things, doors, courses of a meal/
+知道 知道 [zhi1 dao4] /to know; to become aware of/
+能 能 [neng2] /can; to be able to; might possibly; ability; (physics) energy/
+可 可 [ke3] /can; may; able to; to approve; to permit; to suit; (particle used for emphasis) certainly; very/
+以 以 [yi3] /to use; by means of; according to; in order to; because of; at (a certain date or place)/
+可以 可以 [ke3 yi3] /can; may; possible; able to; not bad; pretty good/
+等 等 [deng3] /to wait for; to await; by the time; when; till; and so on; etc.; class; rank; grade; equal to; same as/
+下 下 [xia4] /down; downwards; below; lower; later; next (week etc); second (of two parts); to go down; classifier for number of times an action occurs/
+一下 一下 [yi1 xia4] /(used after a verb) give it a go; to do (sth for a bit to give it a try); one time; once; in a while; all of a sudden/
+等一下 等一下 [deng3 yi1 xia4] /to wait a moment; (after a verb) in a moment; later/
+走 走 [zou3] /to walk; to go; to run; to move (of vehicle); to visit; to leave; to go away/
+坐 坐 [zuo4] /to sit; to take a seat; to take (a bus, airplane etc); to bear fruit/
+到 到 [dao4] /to reach; to arrive; to leave for; to go to; to (a place); until (a time); up to/
+開 开 [kai1] /to open; to start; to turn on; to boil; to write out (a prescription, check, invoice etc); to operate (vehicle)/
+給 给 [gei3] /to; for; for the benefit of; to give; to allow; to do sth (for sb); (passive particle)/
+用 用 [yong4] /to use; to employ; to have to; to eat or drink; expense or outlay; usefulness/
+找 找 [zhao3] /to try to find; to look for; to call on sb; to find; to seek; to return; to give change/
+轉 转 [zhuan3] /to turn; to change direction; to transfer; to forward (mail)/
+左 左 [zuo3] /left; the Left (politics); east; unorthodox/
+右 右 [you4] /right (-hand); the Right (politics); west (old)/
+直 直 [zhi2] /straight; to straighten; fair and reasonable; frank; straightforward; (indicates continuing motion or action); vertical/
+左轉 左转 [zuo3 zhuan3] /to turn left/
+右轉 右转 [you4 zhuan3] /to turn right/
+直走 直走 [zhi2 zou3] /to go straight ahead/
+掃 扫 [sao3] /to sweep; to clear away; to sweep (one's eyes etc) over; to scan/
+碼 码 [ma3] /weight; number; code; to pile; to stack; classifier for length or distance (yard)/
+掃碼 扫码 [sao3 ma3] /to scan a barcode or QR code/
+散 散 [san4] /to scatter; to break up (a meeting etc); to disperse; to disseminate; to dispel/
+步 步 [bu4] /a step; a pace; walk; march; stages in a process; situation/
+散步 散步 [san4 bu4] /to take a walk; to go for a walk/
+覺 觉 [jue2] /to feel; to find that; thinking; awake; aware/
+得 得 [de2] /to obtain; to get; to gain; to catch (a disease); proper; suitable; (after a verb) can/
+得 得 [de5] /structural particle: used after a verb (or adjective as main verb), linking it to following phrase indicating effect, degree, possibility etc/
+覺得 觉得 [jue2 de5] /to think; to feel/
+人 人 [ren2] /person; people/
+朋 朋 [peng2] /friend/
+友 友 [you3] /friend/
+朋友 朋友 [peng2 you5] /friend/
+老 老 [lao3] /old (of people); venerable (person); experienced; of long standing; prefix expressing familiarity/
+師 师 [shi1] /teacher; master; expert; model/
+老師 老师 [lao3 shi1] /teacher/
+傅 傅 [fu4] /tutor; teacher; to assist/
+師傅 师傅 [shi1 fu5] /master; qualified worker; respectful form of address for older men/
+先 先 [xian1] /early; prior; former; in advance; first/
+先生 先生 [xian1 sheng5] /teacher; husband; doctor (dialect); Mister (Mr.)/
+小 小 [xiao3] /small; tiny; few; young/
+姐 姐 [jie3] /older sister/
+小姐 小姐 [xiao3 jie5] /young lady; miss/
+服 服 [fu2] /clothes; dress; garment; to serve (in the military, a prison sentence etc); to obey; to be convinced/
+務 务 [wu4] /affair; business; matter; to be engaged in; to attend to; by all means/
+員 员 [yuan2] /person; employee; member/
+服務員 服务员 [fu2 wu4 yuan2] /waiter; waitress; attendant; customer service personnel/
+經 经 [jing1] /classics; sacred book; scripture; to pass through; to undergo; warp (textile)/
+理 理 [li3] /texture; grain (of wood); reason; logic; truth; science; to manage; to pay attention to/
+經理 经理 [jing1 li3] /manager; director/
+中 中 [zhong1] /within; among; in; middle; center; while (doing sth); during; China; Chinese/
+國 国 [guo2] /country; nation; state; national/
+中國 中国 [Zhong1 guo2] /China/
+美 美 [mei3] /beautiful; very satisfactory; good; to be pleased with oneself; the Americas; USA/
+美國 美国 [Mei3 guo2] /United States; USA; US/
+英 英 [ying1] /hero; outstanding; excellent; (literary) flower; blossom; England; English/
+英國 英国 [Ying1 guo2] /United Kingdom; Britain; England/
+文 文 [wen2] /language; culture; writing; formal; literary; gentle/
+中文 中文 [Zhong1 wen2] /Chinese language/
+漢 汉 [han4] /Han ethnic group; Chinese (language); man/
+語 语 [yu3] /dialect; language; speech/
+漢語 汉语 [Han4 yu3] /Chinese language/
+北 北 [bei3] /north; to be defeated (classical)/
+京 京 [jing1] /capital city of a country; big; Beijing (abbr.)/
+北京 北京 [Bei3 jing1] /Beijing, capital of the People's Republic of China/
+上 上 [shang4] /on top; upon; above; upper; previous; first (of multiple parts); to climb; to get onto; to go up; to attend (class or university)/
+海 海 [hai3] /ocean; sea; great number of people or things/
+上海 上海 [Shang4 hai3] /Shanghai municipality, central east China/
+大 大 [da4] /big; large; great; older (than another person); eldest; greatly; very much/
+衛 卫 [wei4] /to guard; to protect; to defend/
+大衛 大卫 [Da4 wei4] /David (name)/
+家 家 [jia1] /home; family; classifier for families or businesses; refers to the philosophical schools; -ist; -er/
+水 水 [shui3] /water; river; liquid; beverage/
+茶 茶 [cha2] /tea; tea plant/
+咖 咖 [ka1] /coffee (used in 咖啡[ka1 fei1])/
+啡 啡 [fei1] /(used in 咖啡[ka1 fei1])/
+咖啡 咖啡 [ka1 fei1] /coffee/
+拿 拿 [na2] /to hold; to seize; to catch; to apprehend; to take; to bring/
+鐵 铁 [tie3] /iron (metal); arms; weapons; hard; strong; indisputable/
+拿鐵 拿铁 [na2 tie3] /latte (loanword)/
+牛 牛 [niu2] /ox; cow; bull; (slang) awesome/
+奶 奶 [nai3] /breast; milk; to breastfeed/
+牛奶 牛奶 [niu2 nai3] /cow's milk/
+冰 冰 [bing1] /ice/
+熱 热 [re4] /to warm up; to heat up; hot (of weather); heat; fervent/
+辣 辣 [la4] /hot (spicy); pungent/
+菜 菜 [cai4] /dish (type of food); vegetable; cuisine/
+菜單 菜单 [cai4 dan1] /menu/
+點 点 [dian3] /point; dot; drop; speck; o'clock; to draw a dot; to check on a list; to choose; to order (food in a restaurant); a little/
+點菜 点菜 [dian3 cai4] /to order dishes (in a restaurant)/
+一點 一点 [yi1 dian3] /a bit; a little; one o'clock/
+兒 儿 [er2] /child; son; non-syllabic diminutive suffix; retroflex final/
+一點兒 一点儿 [yi1 dian3 r5] /erhua variant of 一點|一点[yi1 dian3]/
+米 米 [mi3] /rice; meter (classifier)/
+米飯 米饭 [mi3 fan4] /(cooked) rice/
+麵 面 [mian4] /flour; noodles/
+面 面 [mian4] /face; side; surface; aspect; top; classifier for flat surfaces such as drums, mirrors, flags etc/
+條 条 [tiao2] /strip; item; article; clause (of law or treaty); classifier for long thin things/
+麵條 面条 [mian4 tiao2] /noodles/
+餃 饺 [jiao3] /dumplings with meat filling/
+子 子 [zi3] /son; child; seed; egg; small thing/
+子 子 [zi5] /(noun suffix)/
+餃子 饺子 [jiao3 zi5] /dumpling; pot-sticker/
+蘋 苹 [ping2] /(used in 蘋果|苹果[ping2 guo3])/
+果 果 [guo3] /fruit; result; resolute; indeed; if really/
+蘋果 苹果 [ping2 guo3] /apple/
+水果 水果 [shui3 guo3] /fruit/
+東 东 [dong1] /east; host (i.e. sitting on east side of guest); landlord/
+西 西 [xi1] /west/
+東西 东西 [dong1 xi5] /thing; stuff; person/
+錢 钱 [qian2] /coin; money; surname Qian/
+塊 块 [kuai4] /lump (of earth); chunk; piece; (coll.) classifier for money and currency units/
+元 元 [yuan2] /currency unit (esp. Chinese yuan); first; primary/
+杯 杯 [bei1] /cup; trophy cup; classifier for certain containers of liquids: glass, cup/
+個 个 [ge4] /individual; this; that; size; classifier for people or objects in general/
+位 位 [wei4] /position; location; place; seat; classifier for people (honorific)/
+天 天 [tian1] /day; sky; heaven/
+天氣 天气 [tian1 qi4] /weather/
+今 今 [jin1] /today; modern; present; current; this; now/
+今天 今天 [jin1 tian1] /today; at the present; now/
+明 明 [ming2] /bright; clear; to understand; next; public or open; wise/
+明天 明天 [ming2 tian1] /tomorrow/
+昨 昨 [zuo2] /yesterday/
+昨天 昨天 [zuo2 tian1] /yesterday/
+現 现 [xian4] /to appear; present; now; existing; current/
+現在 现在 [xian4 zai4] /now; at present; at the moment; modern; current; nowadays/
+時 时 [shi2] /o'clock; time; when; hour; season; period/
+候 候 [hou4] /to wait; to inquire after; to watch; season; climate; (old) period of five days/
+時候 时候 [shi2 hou5] /time; length of time; moment; period/
+間 间 [jian1] /between; among; within a definite time or space; room; section of a room or lateral space between two pairs of pillars; classifier for rooms/
+時間 时间 [shi2 jian1] /time; period/
+公 公 [gong1] /public; collectively owned; common; international; to make public; fair; just; official; male (animal)/
+園 园 [yuan2] /land used for growing plants; site used for public recreation/
+公園 公园 [gong1 yuan2] /park (for public recreation)/
+店 店 [dian4] /inn; shop; store/
+飯店 饭店 [fan4 dian4] /restaurant; hotel/
+商 商 [shang1] /commerce; merchant; dealer; to consult/
+商店 商店 [shang1 dian4] /store; shop/
+市 市 [shi4] /market; city/
+場 场 [chang3] /large place used for a specific purpose; stage; scene; classifier for sporting or recreational activities/
+市場 市场 [shi4 chang3] /marketplace; market (also in abstract)/
+地 地 [di4] /earth; ground; field; place; land/
+地鐵 地铁 [di4 tie3] /subway; metro/
+出 出 [chu1] /to go out; to come out; to occur; to produce; to go beyond; to rise; to put forth; to happen/
+租 租 [zu1] /to hire; to rent; to charter; to rent out; to lease out; rent; land tax/
+車 车 [che1] /car; vehicle; to machine; to lathe/
+出租車 出租车 [chu1 zu1 che1] /taxi/
+路 路 [lu4] /road; path; way; route; classifier for bus lines/
+堵 堵 [du3] /to block up (a road, pipe etc); to stop up (a hole); (of a person) choked up with anxiety or stress; wall (literary)/
+堵車 堵车 [du3 che1] /traffic jam; (of traffic) to get congested/
+機 机 [ji1] /machine; engine; opportunity; intention; aircraft; pivot; crucial point/
+機場 机场 [ji1 chang3] /airport; airfield/
+酒 酒 [jiu3] /wine (esp. rice wine); liquor; spirits; alcoholic beverage/
+酒店 酒店 [jiu3 dian4] /wine shop; pub (public house); hotel; restaurant/
+手 手 [shou3] /hand; (formal) to hold; person engaged in certain types of work; person skilled in certain types of work/
+手機 手机 [shou3 ji1] /cell phone; mobile phone/
+電 电 [dian4] /electric; electricity; electrical/
+電話 电话 [dian4 hua4] /telephone; phone call; phone number/
+好 好 [hao3] /good; well; proper; good to eat; nice; fine; very; so; (suffix indicating completion or readiness)/
+好 好 [hao4] /to be fond of; to have a tendency to; to be prone to/
+好的 好的 [hao3 de5] /OK; all right/
+好吃 好吃 [hao3 chi1] /tasty; delicious/
+好喝 好喝 [hao3 he1] /tasty (drinks)/
+很 很 [hen3] /very; quite; (also, often used before an adjective without intensifying its meaning)/
+太 太 [tai4] /highest; greatest; too (much); very; extremely/
+非 非 [fei1] /to not be; not; wrong; incorrect; non-; un-; in-; to reproach or blame/
+常 常 [chang2] /always; ever; often; frequently; common; general; constant/
+非常 非常 [fei1 chang2] /very; very much; unusual; extraordinary/
+真 真 [zhen1] /really; truly; indeed; real; true; genuine/
+也 也 [ye3] /also; too; (in Classical Chinese) final particle implying affirmation/
+都 都 [dou1] /all; both; entirely; (used for emphasis) even; already; (not) at all/
+都 都 [du1] /capital city; metropolis/
+不 不 [bu4] /(negative prefix); not; no/
+貴 贵 [gui4] /expensive; noble; your (name); precious/
+便 便 [bian4] /plain; informal; suitable; convenient; opportune; to urinate or defecate; then; in that case/
+便 便 [pian2] /see 便宜|便宜[pian2 yi5]/
+宜 宜 [yi2] /proper; should; suitable; appropriate/
+便宜 便宜 [pian2 yi5] /cheap; inexpensive; small advantages; to let sb off lightly/
+新 新 [xin1] /new; newly; meso- (chemistry)/
+快 快 [kuai4] /rapid; quick; speed; rate; soon; almost; to make haste; clever; sharp (of knives or wits); pleased; pleasant/
+慢 慢 [man4] /slow/
+冷 冷 [leng3] /cold/
+漂 漂 [piao4] /elegant; polished/
+亮 亮 [liang4] /bright; clear; resonant; to shine; to show; to reveal/
+漂亮 漂亮 [piao4 liang5] /pretty; beautiful/
+一起 一起 [yi1 qi3] /in the same place; together; with; altogether (in total)/
+然 然 [ran2] /correct; right; so; thus; like this; -ly/
+後 后 [hou4] /back; behind; rear; afterwards; after; later; post-/
+然後 然后 [ran2 hou4] /after; then (afterwards); after that; afterwards/
+但 但 [dan4] /but; yet; however; only; merely; still/
+但是 但是 [dan4 shi4] /but; however/
+可是 可是 [ke3 shi4] /but; however; (used for emphasis) indeed/
+因 因 [yin1] /cause; reason; because/
+因為 因为 [yin1 wei4] /because; owing to; on account of/
+所 所 [suo3] /actually; place; classifier for houses, small buildings, institutions etc; that which; particle introducing a relative clause or passive/
+所以 所以 [suo3 yi3] /therefore; as a result; so; the reason why/
+還 还 [hai2] /still; still in progress; still more; yet; even more; in addition; fairly; passably (good); as early as; even; also; else/
+還是 还是 [hai2 shi5] /or; still; nevertheless; had better/
+就 就 [jiu4] /at once; right away; only; just (emphasis); as early as; already; as soon as; then; in that case; as many as; even if/
+的 的 [de5] /of; ~'s (possessive particle); (used after an attribute); (used to form a nominal expression); (used at the end of a declarative sentence for emphasis)/
+的 的 [di4] /aim; clear/
+了 了 [le5] /(completed action marker); (modal particle indicating change of state, situation now); (modal particle intensifying preceding clause)/
+了 了 [liao3] /to finish; to achieve; variant of 瞭|了[liao3]; to understand clearly/
+嗎 吗 [ma5] /(question particle for "yes-no" questions)/
+呢 呢 [ne5] /particle indicating that a previously asked question is to be applied to the preceding word ("What about ...?"); particle indicating continuation of a state or action/
+吧 吧 [ba5] /(modal particle indicating suggestion or surmise); ...right?; ...OK?; ...I presume./
+啊 啊 [a5] /modal particle ending sentence, showing affirmation, approval, or consent/
+`;
+
+// Radical (部首) of each bundled character, as listed in modern simplified-character dictionaries; "字部" pairs
+export const CHARACTER_RADICALS = `
+一一 二二 两一 三一 四囗 五二 六八 七一 八八 九乙 十十 百白 千十 你亻 您心 我戈 他亻 她女 它宀 们亻 咱口 自自 己己
+这辶 那阝 哪口 个人 里里 什亻 么丿 怎心 样木 为丶 谁讠 几几 多夕 少小 好女 谢讠 客宀 气气 起走 对寸 关八 系糸
+再冂 见见 请讠 问门 欢又 迎辶 光儿 临丨 认讠 识讠 高高 兴八 幸干 会人 名口 字子 叫口 姓女 是日 有月 没氵 在土
+去厶 来木 看目 听口 说讠 话讠 读讠 写冖 吃口 喝口 饭饣 做亻 工工 作亻 学子 习乙 生生 买乙 卖十 单十 要西 想心
+喜口 爱爫 知矢 道辶 能月 可口 以人 等⺮ 下一 走走 坐土 到刂 开廾 给纟 用用 找扌 转车 左工 右口 直目 扫扌 码石
+散攵 步止 觉见 得彳 人人 朋月 友又 老老 师巾 傅亻 先儿 小小 姐女 服月 务力 员口 经纟 理王 中丨 国囗 美羊 英艹
+文文 汉氵 语讠 北匕 京亠 上一 海氵 大大 卫卩 家宀 水水 茶艹 咖口 啡口 拿手 铁钅 牛牛 奶女 冰冫 热灬 辣辛 菜艹
+点灬 儿儿 米米 面面 条木 饺饣 子子 苹艹 果木 东一 西西 钱钅 块土 元儿 杯木 位亻 天大 今人 明日 昨日 现王 时日
+候亻 间门 公八 园囗 店广 商亠 市巾 场土 地土 出凵 租禾 车车 路足 堵土 机木 酒酉 手手 电田 很彳 太大 非非
+常巾 真目 也乙 都阝 不一 贵贝 便亻 宜宀 新斤 快忄 慢忄 冷冫 漂氵 亮亠 然灬 后口 但亻 因囗 所户 还辶 就尢 的白
+了亅 吗口 呢口 吧口 啊口
+`;
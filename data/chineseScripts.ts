@@ -0,0 +1,68 @@
+// Simplified ↔ Traditional conversion tables. Traditional forms follow Taiwan usage (裡, 著, 台).
+// Every mapping keeps the character count, so pinyin stays aligned with the converted hanzi.
+
+// "简繁" pairs: the usual Traditional form of each Simplified character that has one
+export const SIMPLIFIED_TRADITIONAL_PAIRS = `
+爱愛 罢罷 备備 贝貝 笔筆 毕畢 边邊 变變 宾賓 补補 参參 仓倉 产產 长長 尝嘗 场場 车車 彻徹 陈陳 称稱 惩懲 迟遲 齿齒 虫蟲
+础礎 处處 触觸 传傳 闯闖 创創 词詞 从從 聪聰 错錯 达達 带帶 单單 担擔 胆膽 导導 灯燈 邓鄧 敌敵 递遞 点點 电電 钓釣 调調
+东東 动動 冻凍 斗鬥 独獨 读讀 断斷 对對 队隊 吨噸 夺奪 儿兒 尔爾 饿餓 发發 罚罰 范範 饭飯 访訪 纺紡 飞飛 费費 丰豐 风風
+凤鳳 妇婦 复復 负負 该該 盖蓋 干幹 赶趕 钢鋼 个個 给給 够夠 沟溝 构構 购購 顾顧 关關 观觀 馆館 惯慣 贯貫 广廣 归歸 规規
+贵貴 柜櫃 过過 国國 汉漢 号號 贺賀 后後 话話 画畫 怀懷 坏壞 欢歡 环環 还還 换換 唤喚 会會 汇匯 绘繪 伙夥 货貨 获獲 机機
+鸡雞 积積 级級 极極 几幾 挤擠 计計 记記 纪紀 际際 济濟 继繼 绩績 价價 驾駕 坚堅 间間 监監 检檢 减減 简簡 见見 剑劍 键鍵
+将將 奖獎 讲講 酱醬 胶膠 骄驕 脚腳 觉覺 较較 轿轎 阶階 节節 结結 洁潔 紧緊 仅僅 进進 尽盡 惊驚 经經 静靜 镜鏡 旧舊 举舉
+剧劇 据據 惧懼 决決 绝絕 军軍 开開 凯凱 课課 块塊 宽寬 况況 亏虧 扩擴 阔闊 来來 蓝藍 兰蘭 拦攔 烂爛 劳勞 乐樂 类類 泪淚
+离離 礼禮 里裡 丽麗 厉厲 励勵 历歷 连連 联聯 怜憐 脸臉 练練 炼煉 凉涼 两兩 辆輛 谅諒 疗療 辽遼 猎獵 邻鄰 临臨 灵靈 岭嶺
+领領 刘劉 龙龍 楼樓 录錄 陆陸 驴驢 虑慮 乱亂 轮輪 论論 罗羅 萝蘿 逻邏 锣鑼 骆駱 妈媽 马馬 吗嗎 码碼 骂罵 买買 卖賣 麦麥
+满滿 猫貓 么麼 贸貿 没沒 门門 们們 梦夢 弥彌 绵綿 庙廟 灭滅 鸣鳴 铭銘 谋謀 亩畝 难難 脑腦 闹鬧 腻膩 鸟鳥 宁寧 农農 浓濃
+欧歐 盘盤 赔賠 喷噴 鹏鵬 骗騙 飘飄 贫貧 苹蘋 评評 凭憑 铺鋪 朴樸 齐齊 骑騎 岂豈 启啟 气氣 弃棄 迁遷 签簽 钱錢 铅鉛 浅淺
+枪槍 墙牆 强強 抢搶 桥橋 乔喬 侨僑 窍竅 亲親 轻輕 倾傾 庆慶 穷窮 区區 驱驅 趋趨 权權 劝勸 确確 让讓 热熱 认認 荣榮 软軟
+锐銳 润潤 洒灑 伞傘 丧喪 扫掃 涩澀 杀殺 纱紗 晒曬 闪閃 陕陝 伤傷 赏賞 烧燒 绍紹 设設 摄攝 审審 婶嬸 肾腎 渗滲 声聲 绳繩
+圣聖 胜勝 师師 诗詩 时時 识識 实實 势勢 视視 试試 饰飾 适適 释釋 寿壽 兽獸 书書 输輸 术術 树樹 数數 帅帥 双雙 谁誰 税稅
+顺順 说說 硕碩 丝絲 饲飼 松鬆 讼訟 诉訴 肃肅 虽雖 随隨 岁歲 孙孫 损損 笋筍 缩縮 锁鎖 琐瑣 态態 摊攤 滩灘 谈談 叹嘆 汤湯
+烫燙 涛濤 讨討 腾騰 题題 体體 条條 铁鐵 听聽 厅廳 头頭 图圖 团團 涂塗 驼駝 袜襪 弯彎 湾灣 万萬 网網 为為 韦韋 违違 围圍
+伟偉 卫衛 温溫 纹紋 闻聞 问問 稳穩 务務 无無 误誤 雾霧 戏戲 细細 虾蝦 吓嚇 鲜鮮 闲閒 显顯 险險 现現 献獻 县縣 线線 宪憲
+乡鄉 详詳 响響 项項 销銷 晓曉 写寫 协協 谢謝 兴興 须須 许許 续續 绪緒 选選 学學 寻尋 询詢 训訓 压壓 鸭鴨 亚亞 讶訝 烟煙
+盐鹽 严嚴 颜顏 验驗 阳陽 养養 样樣 痒癢 药藥 爷爺 业業 叶葉 页頁 医醫 仪儀 遗遺 亿億 忆憶 艺藝 议議 异異 译譯 阴陰 银銀
+饮飲 隐隱 应應 营營 赢贏 拥擁 优優 忧憂 邮郵 犹猶 游遊 鱼魚 与與 语語 狱獄 预預 誉譽 员員 园園 远遠 愿願 约約 跃躍 阅閱
+云雲 运運 杂雜 灾災 载載 赞贊 脏髒 则則 责責 贼賊 赠贈 闸閘 诈詐 斋齋 债債 战戰 张張 涨漲 帐帳 账賬 赵趙 这這 针針 侦偵
+诊診 阵陣 镇鎮 争爭 证證 郑鄭 织織 职職 执執 纸紙 质質 钟鐘 种種 众眾 昼晝 猪豬 诸諸 烛燭 嘱囑 贮貯 驻駐 筑築 专專 转轉
+赚賺 庄莊 装裝 壮壯 状狀 准準 资資 综綜 总總 纵縱 邹鄒 组組 钻鑽 请請 绿綠 红紅 办辦 层層 帮幫 刚剛 饱飽 饺餃 馒饅 饼餅
+厕廁 订訂 护護 络絡 频頻 习習 赛賽 龄齡 属屬 恋戀 裤褲 厨廚 卧臥 厌厭 奋奮 终終 择擇 统統 败敗 标標 纠糾 锻鍛 览覽 华華
+弹彈 岛島 钥鑰 钮鈕 净淨 锅鍋 馄餛 饨飩 宝寶 脱脫 颗顆 蜡蠟 圆圓 厂廠 废廢 库庫 于於 余餘 着著 采採 丑醜 咸鹹 并並 冲衝
+划劃 当當 俩倆 伦倫 侠俠 铃鈴 锦錦 链鏈 锋鋒 铜銅 饥飢 馅餡 鹅鵝 鸽鴿 鲁魯 鲸鯨 维維 编編 缘緣 纯純 纳納 纷紛 绕繞 谊誼
+谦謙 谱譜 谜謎 谐諧 诚誠 诺諾 诞誕 讯訊 谓謂 谎謊 谨謹 闭閉 阁閣 闷悶 贡貢 财財 贩販 贴貼 贷貸 贱賤 轨軌 辅輔 辈輩 辑輯
+斩斬 暂暫 顶頂 顿頓 额額 烦煩 颖穎 驶駛 冯馮 侧側 兑兌 冈岡 凑湊 击擊 删刪 勋勛 卢盧 却卻 叙敘 吕呂 呜嗚 哑啞 哗嘩 坛壇
+坟墳 垫墊 夸誇 夹夾 妆妝 娱娛 婴嬰 宫宮 寝寢 尘塵 届屆 岗崗 币幣 恶惡 恼惱 悦悅 悬懸 惨慘 愤憤 懒懶 户戶 扑撲 扬揚 扰擾
+抛拋 报報 挂掛 挥揮 挡擋 摆擺 摇搖 携攜 晕暈 杨楊 栏欄 档檔 横橫 残殘 毁毀 泽澤 测測 渐漸 渔漁 湿濕 滚滾 炉爐 牵牽 狭狹
+狮獅 畅暢 疯瘋 睁睜 矿礦 砖磚 碍礙 祸禍 窃竊 竞競 粮糧 肠腸 肤膚 肿腫 胀脹 脉脈 腊臘 艰艱 苏蘇 荐薦 莱萊 蒋蔣 蚂螞 蚁蟻
+逊遜 韩韓 龟龜 内內 黄黃 虚虛 吴吳
+`;
+
+// Words whose characters do not take the usual form above, e.g. 发 is 發 in 发现 but 髮 in 头发.
+// Longer entries win, so a word listed here overrides its characters.
+export const TRADITIONAL_PHRASES: Record<string, string> = {
+  头发: '頭髮', 白发: '白髮', 理发: '理髮', 发型: '髮型', 干净: '乾淨', 干杯: '乾杯', 饼干: '餅乾', 干燥: '乾燥',
+  干脆: '乾脆', 若干: '若干', 干扰: '干擾', 干涉: '干涉', 面条: '麵條', 面包: '麵包', 面粉: '麵粉', 方便面: '方便麵',
+  拉面: '拉麵', 炒面: '炒麵', 牛肉面: '牛肉麵', 吃面: '吃麵', 面馆: '麵館',
+  皇后: '皇后', 王后: '王后', 太后: '太后', 公里: '公里', 英里: '英里', 千里: '千里', 茶几: '茶几', 台风: '颱風',
+  关系: '關係', 联系: '聯繫', 一只: '一隻', 两只: '兩隻', 三只: '三隻', 几只: '幾隻', 这只: '這隻', 那只: '那隻',
+  每只: '每隻',
+  手表: '手錶', 钟表: '鐘錶', 松树: '松樹', 松鼠: '松鼠', 日历: '日曆', 批准: '批准', 不准: '不准', 冲澡: '沖澡',
+  冲茶: '沖茶', 游泳: '游泳', 复习: '複習', 复杂: '複雜', 重复: '重複', 复印: '複印', 复制: '複製', 回复: '回覆',
+  答复: '答覆', 制作: '製作', 制造: '製造',
+  周末: '週末', 一周: '一週', 上周: '上週', 下周: '下週', 这周: '這週', 每周: '每週', 周一: '週一', 周二: '週二',
+  周三: '週三', 周四: '週四', 周五: '週五', 周六: '週六', 周日: '週日',
+  尽管: '儘管', 尽量: '儘量', 尽快: '儘快', 胡子: '鬍子', 胡须: '鬍鬚', 收获: '收穫', 词汇: '詞彙', 老板: '老闆',
+  小丑: '小丑', 伙食: '伙食', 风采: '風采', 舍不得: '捨不得', 合并: '合併', 心脏: '心臟', 划船: '划船', 谷物: '穀物',
+  稻谷: '稻穀',
+};
+
+// "繁简" pairs for Traditional characters that only appear in the phrases, or that the model may write itself
+export const TRADITIONAL_VARIANT_PAIRS = `
+乾干 髮发 麵面 隻只 複复 曆历 週周 錶表 係系 繫系 颱台 臺台 瞭了 儘尽 製制 鬍胡 鬚须 穫获 彙汇 闆板 臟脏 捨舍 併并 沖冲 穀谷 裏里 鍾钟
+`;
+
+// Converting back: Traditional words that keep a character the pairs above would change
+export const SIMPLIFIED_PHRASES: Record<string, string> = {
+  著名: '著名', 著作: '著作', 顯著: '显著', 土著: '土著',
+};
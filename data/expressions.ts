@@ -0,0 +1,14 @@
+import { AvatarExpression } from '../types';
+
+// Everything the model may pass to set_expression; 'neutral' returns to the resting face
+export const AVATAR_EXPRESSIONS: AvatarExpression[] = ['neutral', 'smile', 'surprised', 'thinking', 'encouraging', 'confused'];
+
+// How long an expression is held before the face relaxes back to neutral
+export const EXPRESSION_HOLD_MS = 3500;
+
+// The tutor's reaction to a pronunciation score
+export function expressionForScore(score: number): AvatarExpression {
+  if (score >= 85) return 'smile';
+  if (score >= 60) return 'encouraging';
+  return 'confused';
+}
@@ -0,0 +1,198 @@
+// Scripted Live API sessions for the offline fake transport.
+// Select one with `?transport=fake&script=<name>` or VITE_LIVE_TRANSPORT=fake + VITE_FAKE_SCRIPT=<name>.
+
+interface StepBase {
+  delayMs?: number;
+  // 1-based connect attempts this step runs on (default: every attempt). Lets a script fail once and then recover.
+  attempts?: number[];
+}
+
+export type FakeScriptStep = StepBase & (
+  | { kind: 'message'; message: object }
+  | { kind: 'audio'; durationMs: number; frequency?: number }
+  | { kind: 'toolCall'; calls: { name: string; args: Record<string, unknown> }[]; awaitResponse?: boolean }
+  | { kind: 'userAudio'; minChunks: number } // Wait until the client has streamed this many mic chunks
+  | { kind: 'error'; error: string }
+  | { kind: 'close' }
+);
+
+export interface FakeLiveScript {
+  description: string;
+  rejectConnect?: { error: string; attempts?: number[] };
+  steps: FakeScriptStep[];
+}
+
+const subtitles = (hanzi: string, pinyin: string, english: string): FakeScriptStep => ({
+  kind: 'toolCall',
+  calls: [{ name: 'update_subtitles', args: { hanzi, pinyin, english } }],
+  awaitResponse: true,
+});
+
+const feedback = (userText: string, pinyin: string, score: number, text: string): FakeScriptStep => ({
+  kind: 'toolCall',
+  calls: [{ name: 'provide_pronunciation_feedback', args: { userText, pinyin, score, feedback: text } }],
+  awaitResponse: true,
+});
+
+const grammarError = (learnerSentence: string, correctedSentence: string, grammarPoint: string, explanation: string): FakeScriptStep => ({
+  kind: 'toolCall',
+  calls: [{ name: 'report_grammar_error', args: { learnerSentence, correctedSentence, grammarPoint, explanation } }],
+  awaitResponse: true,
+});
+
+const objective = (objectiveId: string): FakeScriptStep => ({
+  kind: 'toolCall',
+  calls: [{ name: 'mark_objective_complete', args: { objectiveId } }],
+  awaitResponse: true,
+});
+
+const expression = (name: string): FakeScriptStep => ({
+  kind: 'toolCall',
+  calls: [{ name: 'set_expression', args: { expression: name } }],
+  awaitResponse: true,
+});
+
+const transcript = (text: string): FakeScriptStep => ({ kind: 'message', message: { serverContent: { inputTranscription: { text } } } });
+const turnComplete = (): FakeScriptStep => ({ kind: 'message', message: { serverContent: { turnComplete: true } } });
+const interrupted = (): FakeScriptStep => ({ kind: 'message', message: { serverContent: { interrupted: true } } });
+
+const greeting: FakeScriptStep[] = [
+  subtitles('你好！你叫什么名字？', 'Nǐ hǎo! Nǐ jiào shénme míngzi?', 'Hello! What is your name?'),
+  { kind: 'audio', durationMs: 2000 },
+  turnComplete(),
+];
+
+const learnerReply: FakeScriptStep[] = [
+  { kind: 'userAudio', minChunks: 8 },
+  transcript('我叫'),
+  transcript('大卫。'),
+  feedback('我叫大卫。', 'Wǒ jiào Dàwèi.', 72, 'Good! Let your third tone on 我 dip lower before rising.'),
+  turnComplete(),
+];
+
+export const FAKE_LIVE_SCRIPTS: Record<string, FakeLiveScript> = {
+  default: {
+    description: 'A short self-introduction exchange that loops a few turns.',
+    steps: [
+      ...greeting,
+      ...learnerReply,
+      expression('smile'),
+      subtitles('很高兴认识你，大卫。你是哪国人？', 'Hěn gāoxìng rènshi nǐ, Dàwèi. Nǐ shì nǎ guó rén?', 'Nice to meet you, David. Which country are you from?'),
+      { kind: 'audio', durationMs: 2500, frequency: 240 },
+      turnComplete(),
+      { kind: 'userAudio', minChunks: 8 },
+      transcript('我是美国人。'),
+      feedback('我是美国人。', 'Wǒ shì Měiguó rén.', 88, 'Very clear. Nice falling fourth tone on 是.'),
+      turnComplete(),
+      subtitles('你做什么工作？', 'Nǐ zuò shénme gōngzuò?', 'What do you do for work?'),
+      { kind: 'audio', durationMs: 1800 },
+      turnComplete(),
+      { kind: 'userAudio', minChunks: 8 },
+      transcript('我是老师在学校。'),
+      grammarError('我是老师在学校。', '我在学校当老师。', '在 + place before the verb', 'Where something happens (在 + place) goes before the verb, not at the end of the sentence.'),
+      turnComplete(),
+      subtitles('哦，你在学校当老师。真不错！', 'Ò, nǐ zài xuéxiào dāng lǎoshī. Zhēn búcuò!', 'Oh, you work as a teacher at a school. How nice!'),
+      { kind: 'audio', durationMs: 2200 },
+      turnComplete(),
+    ],
+  },
+
+  'lesson-objectives': {
+    description: 'Ticks off the Self Introduction objectives (pick that lesson first), including one unknown id.',
+    steps: [
+      ...greeting,
+      ...learnerReply,
+      objective('name'),
+      subtitles('你是哪国人？', 'Nǐ shì nǎ guó rén?', 'Which country are you from?'),
+      { kind: 'audio', durationMs: 1500 },
+      turnComplete(),
+      { kind: 'userAudio', minChunks: 8 },
+      transcript('我是美国人。'),
+      objective('nationality'), // Not a real id: the service should answer with the valid ones
+      objective('country'),
+      turnComplete(),
+      subtitles('你做什么工作？', 'Nǐ zuò shénme gōngzuò?', 'What do you do for work?'),
+      { kind: 'audio', durationMs: 1500 },
+      turnComplete(),
+      { kind: 'userAudio', minChunks: 8 },
+      transcript('我是老师。'),
+      objective('job'),
+      turnComplete(),
+    ],
+  },
+
+  interrupt: {
+    description: 'The AI is cut off mid-sentence by the learner (barge-in).',
+    steps: [
+      subtitles('今天天气很好，我们可以去公园散步，然后喝一杯咖啡。', 'Jīntiān tiānqì hěn hǎo, wǒmen kěyǐ qù gōngyuán sànbù, ránhòu hē yì bēi kāfēi.', 'The weather is nice today, we can walk in the park and then have a coffee.'),
+      { kind: 'audio', durationMs: 1500 },
+      interrupted(),
+      transcript('等一下！'),
+      turnComplete(),
+      subtitles('好的，你说。', 'Hǎo de, nǐ shuō.', 'Okay, go ahead.'),
+      { kind: 'audio', durationMs: 1000 },
+      turnComplete(),
+    ],
+  },
+
+  'network-error': {
+    description: 'A network error on the first connection, then a clean session after reconnecting.',
+    steps: [
+      ...greeting,
+      { kind: 'error', error: 'Network error', delayMs: 1500, attempts: [1] },
+      ...learnerReply,
+    ],
+  },
+
+  'resume': {
+    description: 'The socket drops after the server issued a resumption handle; the reconnect resumes with it.',
+    steps: [
+      { kind: 'message', message: { sessionResumptionUpdate: { newHandle: 'fake-resume-handle', resumable: true } }, attempts: [1] },
+      // A resumed session does not greet again
+      ...greeting.map(step => ({ ...step, attempts: [1] })),
+      { kind: 'error', error: 'Network error', delayMs: 1500, attempts: [1] },
+      ...learnerReply,
+    ],
+  },
+
+  'internal-error': {
+    description: 'Internal server errors on every attempt, exhausting the reconnect budget.',
+    steps: [
+      ...greeting,
+      { kind: 'error', error: 'Internal error encountered.', delayMs: 1000 },
+    ],
+  },
+
+  'tool-lock': {
+    description: 'Back-to-back tool calls with no audio between them, to reproduce the audio send lock.',
+    steps: [
+      subtitles('你好！', 'Nǐ hǎo!', 'Hello!'),
+      { kind: 'toolCall', calls: [{ name: 'update_subtitles', args: { hanzi: '欢迎！', pinyin: 'Huānyíng!', english: 'Welcome!' } }] },
+      { kind: 'toolCall', calls: [{ name: 'update_subtitles', args: { hanzi: '请说话。', pinyin: 'Qǐng shuōhuà.', english: 'Please speak.' } }], awaitResponse: true },
+      { kind: 'audio', durationMs: 1200 },
+      turnComplete(),
+      // Stalls here if the service never releases its tool lock
+      ...learnerReply,
+    ],
+  },
+
+  'connect-rejected': {
+    description: 'The server refuses the initial handshake.',
+    rejectConnect: { error: 'Handshake rejected by fake server' },
+    steps: [],
+  },
+
+  'quota-exceeded': {
+    description: 'The server refuses the handshake because the API quota is used up.',
+    rejectConnect: { error: 'RESOURCE_EXHAUSTED: You exceeded your current quota.' },
+    steps: [],
+  },
+
+  'server-close': {
+    description: 'The server closes the session unexpectedly after the greeting.',
+    steps: [
+      ...greeting,
+      { kind: 'close', delayMs: 1000 },
+    ],
+  },
+};
@@ -1,4 +1,4 @@
-import { Lesson } from '../types';
+import { Lesson, LessonFile } from '../types';
 
 export const LESSONS: Lesson[] = [
   {
@@ -7,6 +7,12 @@ export const LESSONS: Lesson[] = [
     topic: 'Social',
     level: 'Beginner',
     description: 'Learn how to introduce yourself, state your name, nationality, and profession.',
+    recommendedPersonaId: 'xiaoming',
+    objectives: [
+      { id: 'name', description: 'Say your name' },
+      { id: 'country', description: 'Say which country you are from' },
+      { id: 'job', description: 'Say what you do for work' },
+    ],
     scenario: `ROLEPLAY SCENARIO:
     You are meeting the user for the first time at a social gathering. 
     Goal: Help the user practice introducing themselves (Name, Country, Job).
@@ -21,6 +27,13 @@ export const LESSONS: Lesson[] = [
     topic: 'Daily Life',
     level: 'Beginner',
     description: 'Practice ordering drinks, specifying size, sugar/ice levels, and paying.',
+    recommendedPersonaId: 'meimei',
+    objectives: [
+      { id: 'drink', description: 'Order a drink' },
+      { id: 'size', description: 'Choose hot or iced and a cup size' },
+      { id: 'sugar', description: 'Say how much sugar you want' },
+      { id: 'pay', description: 'Pay with WeChat Pay or Alipay' },
+    ],
     scenario: `ROLEPLAY SCENARIO:
     You are a barista at a coffee shop. The user is a customer.
     Goal: The user needs to order a drink.
@@ -36,6 +49,13 @@ export const LESSONS: Lesson[] = [
     topic: 'Travel',
     level: 'Intermediate',
     description: 'Give directions to a taxi driver, discuss routes, and handle payment.',
+    recommendedPersonaId: 'zhang',
+    objectives: [
+      { id: 'destination', description: 'Tell the driver where you are going' },
+      { id: 'landmark', description: 'Describe a landmark near your destination' },
+      { id: 'small-talk', description: 'Chat about the traffic or weather' },
+      { id: 'fare', description: 'Pay the fare' },
+    ],
     scenario: `ROLEPLAY SCENARIO:
     You are a Beijing taxi driver. The user is the passenger.
     Goal: The user needs to tell you where to go.
@@ -51,12 +71,18 @@ export const LESSONS: Lesson[] = [
     topic: 'Shopping',
     level: 'Intermediate',
     description: 'Buy fruit or souvenirs and try to negotiate a cheaper price.',
+    recommendedPersonaId: 'meimei',
+    objectives: [
+      { id: 'ask-price', description: 'Ask how much something costs' },
+      { id: 'bargain', description: 'Bargain for a lower price' },
+      { id: 'deal', description: 'Agree on a price and buy it' },
+    ],
     scenario: `ROLEPLAY SCENARIO:
     You are a street vendor selling fruit and souvenirs in a market. The user is a tourist.
     Goal: The user tries to buy apples or a gift and wants a discount.
     1. Offer your goods enthusiastically (来看一看，很便宜！).
     2. State a slightly high price when asked.
-    3. If the user bargains, react with mock shock ("Too cheap! I lose money!").
+    3. If the user bargains, react with mock shock ("Too cheap! I lose money!") and show it with set_expression "surprised".
     4. Eventually agree to a middle price.
     Fun and lively tone.`
   },
@@ -66,6 +92,13 @@ export const LESSONS: Lesson[] = [
     topic: 'Professional',
     level: 'Advanced',
     description: 'Formal greetings, exchanging business cards, and discussing a schedule.',
+    recommendedPersonaId: 'wang',
+    objectives: [
+      { id: 'greeting', description: 'Greet your host formally' },
+      { id: 'cards', description: 'Exchange business cards' },
+      { id: 'agenda', description: 'Discuss the afternoon agenda' },
+      { id: 'arrangements', description: 'Answer the question about accommodation' },
+    ],
     scenario: `ROLEPLAY SCENARIO:
     You are a manager at a Chinese tech company hosting a foreign partner (the user).
     Goal: Formal business greeting and schedule discussion.
@@ -75,4 +108,34 @@ export const LESSONS: Lesson[] = [
     4. Ask if they need any accommodation arrangements.
     Focus on formal business etiquette and vocabulary.`
   }
-];
\ No newline at end of file
+];
+
+export const getLessonTitle = (lessonId: string | null) => {
+  if (!lessonId) return 'Free Talk Mode';
+  return LESSONS.find(l => l.id === lessonId)?.title || lessonId;
+};
+
+// Starting point offered by the Lesson Library's "Template" button; see utils/lessonSchema.ts for the rules
+export const LESSON_FILE_TEMPLATE: LessonFile = {
+  id: 'restaurant',
+  title: 'Ordering at a Restaurant',
+  description: 'Ask for a table, order dishes and ask for the bill.',
+  level: 'Beginner',
+  topic: 'Daily Life',
+  aiRole: 'a friendly waiter at a small Sichuan restaurant',
+  learnerRole: 'a hungry customer',
+  objectives: [
+    'Ask for a table for the right number of people.',
+    'Order one dish and one drink.',
+    'Ask whether a dish is spicy.',
+    'Ask for the bill.',
+  ],
+  vocabulary: [
+    { hanzi: '菜单', pinyin: 'cài dān', english: 'menu' },
+    { hanzi: '辣', pinyin: 'là', english: 'spicy' },
+    { hanzi: '买单', pinyin: 'mǎi dān', english: 'pay the bill' },
+  ],
+  openingLine: { hanzi: '欢迎光临！几位？', pinyin: 'Huānyíng guānglín! Jǐ wèi?', english: 'Welcome! How many people?' },
+  notes: 'Keep sentences short and simple.',
+  persona: 'xiaoming',
+};
@@ -0,0 +1,86 @@
+import { DisplaySettings, MicSettings, PlaybackSettings, VadSettings } from '../types';
+
+const VAD_SETTINGS_KEY = 'mandarin-talk.vad';
+const MIC_SETTINGS_KEY = 'mandarin-talk.mic';
+const PLAYBACK_SETTINGS_KEY = 'mandarin-talk.playback';
+const DISPLAY_SETTINGS_KEY = 'mandarin-talk.display';
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  enabled: true,
+  noiseGateDb: -50,
+  hangoverMs: 700,
+};
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1.2,
+};
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  rate: 1,
+};
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  script: 'simplified',
+};
+
+// Small per-device preferences live in localStorage; failures (private mode, quota) fall back to defaults
+function loadSettings<T extends object>(key: string, defaults: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+function saveSettings<T extends object>(key: string, settings: T) {
+  try {
+    localStorage.setItem(key, JSON.stringify(settings));
+  } catch (e) {
+    console.warn(`Failed to save ${key}:`, e);
+  }
+}
+
+export const loadVadSettings = () => loadSettings(VAD_SETTINGS_KEY, DEFAULT_VAD_SETTINGS);
+export const saveVadSettings = (settings: VadSettings) => saveSettings(VAD_SETTINGS_KEY, settings);
+export const loadMicSettings = () => loadSettings(MIC_SETTINGS_KEY, DEFAULT_MIC_SETTINGS);
+export const saveMicSettings = (settings: MicSettings) => saveSettings(MIC_SETTINGS_KEY, settings);
+export const loadPlaybackSettings = () => loadSettings(PLAYBACK_SETTINGS_KEY, DEFAULT_PLAYBACK_SETTINGS);
+export const savePlaybackSettings = (settings: PlaybackSettings) => saveSettings(PLAYBACK_SETTINGS_KEY, settings);
+export const loadDisplaySettings = () => loadSettings(DISPLAY_SETTINGS_KEY, DEFAULT_DISPLAY_SETTINGS);
+export const saveDisplaySettings = (settings: DisplaySettings) => saveSettings(DISPLAY_SETTINGS_KEY, settings);
+
+// Device labels stay empty until the page has been granted mic access once
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications');
+}
+
+export function buildAudioConstraints(settings: MicSettings, useDefaultDevice = false): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId && !useDefaultDevice ? { deviceId: { exact: settings.deviceId } } : {}),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/**
+ * Opens the chosen mic, falling back to the system default when the remembered device is gone
+ * (unplugged headset, or ids reset after clearing site data).
+ */
+export async function openMicrophone(settings: MicSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (error: any) {
+    const deviceMissing = error?.name === 'OverconstrainedError' || error?.name === 'NotFoundError';
+    if (!settings.deviceId || !deviceMissing) throw error;
+    console.warn("Selected microphone unavailable, using the default device:", error);
+    return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings, true) });
+  }
+}
@@ -0,0 +1,206 @@
+import { LiveConnectParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage } from '@google/genai';
+import { FAKE_LIVE_SCRIPTS, FakeLiveScript, FakeScriptStep } from '../data/fakeLiveScripts';
+import { bytesToBase64 } from '../utils/audioUtils';
+import type { LiveSession, LiveTransport } from './liveTransport';
+import { LiveServiceError } from './liveServiceError';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const AUDIO_CHUNK_MS = 100;
+// Real servers stream audio faster than realtime; mimic that so playback scheduling is exercised.
+const AUDIO_CHUNK_INTERVAL_MS = 40;
+const CONNECT_LATENCY_MS = 300;
+
+// Synthesizes a speech-like 24 kHz PCM16 tone: a pitch glide with a syllable-rate envelope.
+function synthesizeSpeechChunk(startSample: number, sampleCount: number, frequency: number): string {
+  const buffer = new ArrayBuffer(sampleCount * 2);
+  const view = new DataView(buffer);
+  for (let i = 0; i < sampleCount; i++) {
+    const t = (startSample + i) / OUTPUT_SAMPLE_RATE;
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t);
+    const pitch = frequency * (1 + 0.1 * Math.sin(2 * Math.PI * 0.7 * t));
+    const sample = 0.3 * envelope * Math.sin(2 * Math.PI * pitch * t);
+    view.setInt16(i * 2, sample * 0x7FFF, true);
+  }
+  return bytesToBase64(new Uint8Array(buffer));
+}
+
+function toMessage(data: object): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), data);
+}
+
+class FakeLiveSession implements LiveSession {
+  private params: LiveConnectParameters;
+  private script: FakeLiveScript;
+  private attempt: number;
+  private closed = false;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private audioChunksReceived = 0;
+  private answeredToolCallIds = new Set<string>();
+  private wake: (() => void) | null = null;
+  private toolCallCounter = 0;
+
+  constructor(params: LiveConnectParameters, script: FakeLiveScript, attempt: number) {
+    this.params = params;
+    this.script = script;
+    this.attempt = attempt;
+  }
+
+  sendRealtimeInput(input: LiveSendRealtimeInputParameters) {
+    if (this.closed) return;
+    if (input.media || input.audio) {
+      this.audioChunksReceived += 1;
+      this.notify();
+    }
+  }
+
+  sendToolResponse(response: LiveSendToolResponseParameters) {
+    if (this.closed) return;
+    const responses = Array.isArray(response.functionResponses) ? response.functionResponses : [response.functionResponses];
+    responses.forEach(r => { if (r.id) this.answeredToolCallIds.add(r.id); });
+    this.notify();
+  }
+
+  sendClientContent() {
+    // Scripts do not react to client content; accepted so context seeding works offline.
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.notify();
+    this.params.callbacks.onclose?.(new CloseEvent('close', { code: 1000, reason: 'Client closed' }));
+  }
+
+  async run() {
+    for (const step of this.script.steps) {
+      if (this.closed) return;
+      if (step.attempts && !step.attempts.includes(this.attempt)) continue;
+      await this.delay(step.delayMs ?? 0);
+      if (this.closed) return;
+      await this.runStep(step);
+    }
+  }
+
+  private async runStep(step: FakeScriptStep) {
+    const { callbacks } = this.params;
+
+    switch (step.kind) {
+      case 'message':
+        callbacks.onmessage(toMessage(step.message));
+        break;
+
+      case 'audio': {
+        const samplesPerChunk = Math.round(OUTPUT_SAMPLE_RATE * AUDIO_CHUNK_MS / 1000);
+        const totalSamples = Math.round(OUTPUT_SAMPLE_RATE * step.durationMs / 1000);
+        for (let offset = 0; offset < totalSamples && !this.closed; offset += samplesPerChunk) {
+          const count = Math.min(samplesPerChunk, totalSamples - offset);
+          callbacks.onmessage(toMessage({
+            serverContent: {
+              modelTurn: {
+                parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: synthesizeSpeechChunk(offset, count, step.frequency ?? 220) } }]
+              }
+            }
+          }));
+          await this.delay(AUDIO_CHUNK_INTERVAL_MS);
+        }
+        break;
+      }
+
+      case 'toolCall': {
+        const functionCalls = step.calls.map(call => ({ id: `fake-call-${++this.toolCallCounter}`, name: call.name, args: call.args }));
+        callbacks.onmessage(toMessage({ toolCall: { functionCalls } }));
+        if (step.awaitResponse) {
+          await this.waitUntil(() => functionCalls.every(fc => this.answeredToolCallIds.has(fc.id)));
+        }
+        break;
+      }
+
+      case 'userAudio': {
+        const target = this.audioChunksReceived + step.minChunks;
+        await this.waitUntil(() => this.audioChunksReceived >= target);
+        break;
+      }
+
+      case 'error':
+        callbacks.onerror?.(new ErrorEvent('error', { message: step.error }));
+        break;
+
+      case 'close':
+        this.close();
+        break;
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+
+  private waitUntil(condition: () => boolean): Promise<void> {
+    return new Promise(resolve => {
+      const check = () => {
+        if (this.closed || condition()) {
+          this.wake = null;
+          resolve();
+        } else {
+          this.wake = check;
+        }
+      };
+      check();
+    });
+  }
+
+  private notify() {
+    this.wake?.();
+  }
+}
+
+/**
+ * Offline stand-in for the Gemini Live socket. Replays a named script from
+ * data/fakeLiveScripts.ts against the real LiveApiService callbacks.
+ */
+export class FakeLiveTransport implements LiveTransport {
+  readonly name = 'fake';
+  private scriptName: string;
+  private connectAttempts = 0;
+
+  constructor(scriptName: string) {
+    this.scriptName = scriptName;
+  }
+
+  getConfigurationError(): LiveServiceError | null {
+    if (!FAKE_LIVE_SCRIPTS[this.scriptName]) {
+      return new LiveServiceError('UNKNOWN', `Unknown fake script "${this.scriptName}". Available: ${Object.keys(FAKE_LIVE_SCRIPTS).join(', ')}.`);
+    }
+    return null;
+  }
+
+  connect(params: LiveConnectParameters): Promise<LiveSession> {
+    const script = FAKE_LIVE_SCRIPTS[this.scriptName];
+    this.connectAttempts += 1;
+    const attempt = this.connectAttempts;
+    const resumeHandle = params.config?.sessionResumption?.handle;
+    console.info(`[FakeLiveTransport] Connect attempt ${attempt} using script "${this.scriptName}"${resumeHandle ? ` (resuming ${resumeHandle})` : ''}`);
+
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (script.rejectConnect && (!script.rejectConnect.attempts || script.rejectConnect.attempts.includes(attempt))) {
+          reject(new Error(script.rejectConnect.error));
+          return;
+        }
+        const session = new FakeLiveSession(params, script, attempt);
+        params.callbacks.onopen?.();
+        resolve(session);
+        session.run().catch(e => console.error("[FakeLiveTransport] Script failed:", e));
+      }, CONNECT_LATENCY_MS);
+    });
+  }
+}
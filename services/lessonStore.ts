@@ -0,0 +1,17 @@
+import { LessonFile } from '../types';
+import { runRequest, IMPORTED_LESSONS_STORE } from './localDatabase';
+
+// Stores the validated source file rather than the compiled Lesson, so compiler changes apply to old imports
+
+export async function saveImportedLesson(file: LessonFile): Promise<void> {
+  await runRequest(IMPORTED_LESSONS_STORE, 'readwrite', store => store.put(file));
+}
+
+export async function listImportedLessons(): Promise<LessonFile[]> {
+  const files = await runRequest(IMPORTED_LESSONS_STORE, 'readonly', store => store.getAll() as IDBRequest<LessonFile[]>);
+  return files.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function deleteImportedLesson(id: string): Promise<void> {
+  await runRequest(IMPORTED_LESSONS_STORE, 'readwrite', store => store.delete(id));
+}
@@ -1,18 +1,71 @@
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { SubtitleData, PronunciationFeedback } from '../types';
-import { base64ToBytes, decodeAudioData, createPcmBlob, downsampleTo16k, concatenateFloat32Buffers } from '../utils/audioUtils';
+import { LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
+import { SubtitleData, PronunciationFeedback, PitchContour, ConversationTurn, LessonObjective, TutorPersona, MicMode, MicSettings, VadSettings, InputLevel, OutputAudioFrame, AvatarExpression, ChineseScript, GrammarError } from '../types';
+import { base64ToBytes, decodeAudioData, createPcmBlob } from '../utils/audioUtils';
+import { TimeStretcher, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../utils/timeStretch';
+import { int16ToFloat } from '../utils/wav';
+import { PitchTracker } from '../utils/pitch';
+import { measureBands } from '../utils/lipSync';
+import { LiveSession, LiveTransport, createLiveTransport } from './liveTransport';
+import { SessionRecorder } from './sessionRecorder';
+import { DEFAULT_VAD_SETTINGS, DEFAULT_MIC_SETTINGS, openMicrophone } from './audioSettings';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, getRetryDelay } from '../utils/retryPolicy';
+import { LiveServiceError, classifyLiveError, classifyMicrophoneError } from './liveServiceError';
+import { DEFAULT_PERSONA, FORMALITY_INSTRUCTIONS } from '../data/personas';
+import { AVATAR_EXPRESSIONS } from '../data/expressions';
 
 interface LiveServiceCallbacks {
   onStateChange: (state: 'DISCONNECTED' | 'CONNECTING' | 'CONNECTED' | 'ERROR') => void;
-  onSubtitle: (data: SubtitleData) => void;
+  onSubtitle: (data: SubtitleData, replayId: string) => void; // replayId keys the turn's audio for getTurnAudio()
   onPronunciationFeedback: (feedback: PronunciationFeedback) => void;
+  onGrammarError: (report: GrammarError) => void;
   onUserTranscript: (text: string) => void;
-  onAudioVolume: (volume: number) => void; // Used for avatar animation
-  onError: (message: string) => void;
+  onUserPitchContour: (contour: PitchContour) => void; // Local F0 track of the learner's last utterance
+  onExpression: (expression: AvatarExpression) => void;
+  onObjectiveComplete: (objectiveId: string) => void;
+  onOutputAudio: (frame: OutputAudioFrame) => void; // Drives the avatar's lip sync; called every animation frame
+  onPlayingTurnChange: (replayId: string | null) => void; // Model turn whose audio is playing, null once it has played out
+  onInputLevel: (level: InputLevel) => void; // Mic level meter, ~25 updates per second while capturing
+  onError: (error: LiveServiceError) => void;
 }
 
 const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
 
+// Mic capture runs in an AudioWorklet (see utils/audioCaptureWorklet.js).
+// `no-inline` stops Vite from turning the small file into a data: URL, which not every browser accepts for worklets.
+const CAPTURE_WORKLET_URL = new URL('../utils/audioCaptureWorklet.js?no-inline', import.meta.url);
+const CAPTURE_PROCESSOR_NAME = 'audio-capture-processor';
+
+// How much of the conversation is replayed into a fresh session when it cannot be resumed
+const SEED_TRANSCRIPT_TURNS = 12;
+const SEED_TRANSCRIPT_TURN_CHARS = 160;
+
+interface CapturedChunkMessage {
+  type: 'chunk';
+  samples: Int16Array;
+  flushed: boolean; // Reply to a flush request; may be shorter than BUFFER_THRESHOLD
+  endOfSpeech: boolean; // The voice activity gate just closed; this is the tail of the utterance
+}
+
+// A stretched chunk of model audio queued on the output context
+interface ScheduledOutput {
+  source: AudioBufferSourceNode;
+  startTime: number; // Output context time
+  inputStart: number; // Stretcher input position of its first sample, for regenerating it at another rate
+  generation: number; // Stretcher generation (one per model turn); older positions cannot be rewound to
+}
+
+// Queued audio starting sooner than this keeps its old rate rather than risking a gap
+const RESCHEDULE_MARGIN_S = 0.03;
+
+// Model turns whose decoded audio is kept in memory for replay (about 100 KB per second of speech)
+const MAX_REPLAY_TURNS = 60;
+
+interface InputLevelMessage {
+  type: 'level';
+  db: number;
+  speech: boolean;
+}
+
 // Tool definition for subtitles (AI Speech)
 const updateSubtitlesTool: FunctionDeclaration = {
   name: 'update_subtitles',
@@ -44,32 +97,112 @@ const pronunciationFeedbackTool: FunctionDeclaration = {
   },
 };
 
+// Tool definition for the mistake log; the spoken correction stays as it is
+const reportGrammarErrorTool: FunctionDeclaration = {
+  name: 'report_grammar_error',
+  description: 'Records a grammar mistake the user just made so they can review it later.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      learnerSentence: { type: Type.STRING, description: 'The sentence the user said, in Chinese, with the mistake.' },
+      correctedSentence: { type: Type.STRING, description: 'The same sentence corrected, in Chinese.' },
+      grammarPoint: { type: Type.STRING, description: 'A short, reusable name for the rule, e.g. "了 for completed actions" or "Measure word 个". Use the same name each time the same rule comes up.' },
+      explanation: { type: Type.STRING, description: 'One or two sentences in English explaining the correction.' },
+    },
+    required: ['learnerSentence', 'correctedSentence', 'grammarPoint', 'explanation'],
+  },
+};
+
+// Null unless every field is a non-empty string
+function parseGrammarError(args: Record<string, unknown> | undefined): GrammarError | null {
+  const field = (key: keyof GrammarError) => typeof args?.[key] === 'string' ? (args[key] as string).trim() : '';
+  const report: GrammarError = {
+    learnerSentence: field('learnerSentence'),
+    correctedSentence: field('correctedSentence'),
+    grammarPoint: field('grammarPoint'),
+    explanation: field('explanation'),
+  };
+  return Object.values(report).every(Boolean) ? report : null;
+}
+
+// Tool definition for lesson progress. Only offered when the lesson has objectives.
+const markObjectiveCompleteTool: FunctionDeclaration = {
+  name: 'mark_objective_complete',
+  description: 'Marks one of the lesson objectives as accomplished by the user.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      objectiveId: { type: Type.STRING, description: 'The id of the objective the user just accomplished, exactly as listed in LESSON OBJECTIVES.' },
+    },
+    required: ['objectiveId'],
+  },
+};
+
+// Tool definition for the avatar's face, e.g. mock shock while bargaining
+const setExpressionTool: FunctionDeclaration = {
+  name: 'set_expression',
+  description: 'Shows a facial expression on the avatar for a few seconds, to match the emotion of what you are saying.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      expression: { type: Type.STRING, enum: AVATAR_EXPRESSIONS, description: 'The expression to show.' },
+    },
+    required: ['expression'],
+  },
+};
+
 export class LiveApiService {
-  private ai: GoogleGenAI;
-  private session: Promise<any> | null = null;
+  private transport: LiveTransport;
+  private session: Promise<LiveSession> | null = null;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private outputAnalyser: AnalyserNode | null = null;
   private nextStartTime = 0;
-  private sources = new Set<AudioBufferSourceNode>();
+  private scheduledOutput: ScheduledOutput[] = [];
+
+  // Playback speed of the model's voice, applied locally so it works whatever the model does
+  private playbackRate = 1;
+  private stretcher = new TimeStretcher(24000);
+  private stretcherGeneration = 0;
+  private isOutputTurnOpen = false;
+  // The model turn whose audio is playing, for lip sync; startTime is the output context time of its first sample
+  private outputTurn: { replayId: string; startTime: number | null } | null = null;
+  private playingReplayId: string | null = null;
+
+  // Decoded model audio grouped by turn, so the learner can replay a turn without asking the model to repeat.
+  // A turn opens with its first subtitle or audio chunk and closes at turnComplete or an interruption once it has audio.
+  private replayTurns = new Map<string, AudioBuffer[]>();
+  private openReplayId: string | null = null;
   private mediaStream: MediaStream | null = null;
   private callbacks: LiveServiceCallbacks;
   private animationFrameId: number | null = null;
-  private isProcessorRunning = false;
+  private isCaptureRunning = false;
   private isConnected = false;
   private isDisconnecting = false;
   private hasReportedFatalError = false;
   private isReportingError = false; // Semaphore to prevent double error handling
-  private internalErrorRetryCount = 0;
-  private readonly MAX_INTERNAL_ERROR_RETRIES = 2; // Increased retries slightly
+  private retryPolicy: RetryPolicy;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private stableSessionTimer: ReturnType<typeof setTimeout> | null = null;
   private lastScenarioInstruction?: string;
   private lastSpeakingRate: number = 1.0;
+  private lastObjectives: LessonObjective[] = [];
+  private lastPersona: TutorPersona = DEFAULT_PERSONA;
+  // Kept across quick reconnects so the new session does not repeat finished steps
+  private completedObjectiveIds = new Set<string>();
+  private isRecovering = false;
+
+  // Session resumption: the server hands out handles that restore the conversation on a new socket.
+  // Without one, a reconnect is seeded with the recent transcript instead.
+  private resumptionHandle: string | null = null;
+  private sessionUsesResumptionHandle = false;
+  private hasSessionMessages = false;
+  private isServerGoingAway = false;
+  private conversationHistory: ConversationTurn[] = [];
   private currentInputTranscription = '';
-  private apiKey: string | undefined;
 
-  // Audio Accumulation Buffer
-  private audioBufferChunks: Float32Array[] = [];
-  private currentBufferSize = 0;
+  // Chunk size the capture worklet accumulates before posting to the main thread.
   // 4096 samples @ 16kHz = 256ms. This is a stable balance between latency and request frequency.
   private readonly BUFFER_THRESHOLD = 4096; 
   
@@ -78,24 +211,38 @@ export class LiveApiService {
   // Lock to prevent audio sends during tool execution
   private isProcessingTool = false;
 
+  // Local pitch tracking of the learner's speech. Paused while the model talks so its audio is not analysed.
+  private pitchTracker = new PitchTracker(16000);
+  private isModelSpeaking = false;
+
+  // Mic gating. The turn mode is fixed per session: push-to-talk disables the server's voice activity detection.
+  private micMode: MicMode = 'handsFree';
+  private prefersPushToTalk = false; // Last non-muted choice, so muting before a call keeps the turn mode
+  private sessionUsesManualActivity = false;
+  private isTalkHeld = false;
+  private pendingActivityEnd = false; // Waiting for the worklet to flush the end of a push-to-talk turn
+  private localPlaybackCount = 0; // Replays of earlier turns playing on this device
+  private vadSettings: VadSettings = DEFAULT_VAD_SETTINGS;
+
+  // Mic device and processing. Device switches are serialized so overlapping devicechange events cannot race.
+  private micSettings: MicSettings = DEFAULT_MIC_SETTINGS;
+  private inputSwap: Promise<void> = Promise.resolve();
+  private inputDeviceSignature = '';
+
+  private chineseScript: ChineseScript = 'simplified'; // Which hanzi the model is asked to write
+
+  // Optional recorder for both sides of the call
+  private recorder: SessionRecorder | null = null;
+
   // Keep references to prevent garbage collection
-  private processor: ScriptProcessorNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
   private inputGain: GainNode | null = null;
 
-  constructor(callbacks: LiveServiceCallbacks) {
+  constructor(callbacks: LiveServiceCallbacks, transport: LiveTransport = createLiveTransport(), retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY) {
     this.callbacks = callbacks;
-    
-    // Support both Vite production env (import.meta.env) and standard process.env
-    // Also support various naming conventions (VITE_API_KEY, VITE_GEMINI_API_KEY, GEMINI_API_KEY)
-    const env = (import.meta as any).env || {};
-    const key = env.VITE_API_KEY || env.VITE_GEMINI_API_KEY || env.GEMINI_API_KEY || process.env.API_KEY || process.env.GEMINI_API_KEY;
-    
-    this.apiKey = key;
-    
-    // Initialize with provided key or a placeholder to prevent immediate crash.
-    // The actual validation happens when we try to connect.
-    this.ai = new GoogleGenAI({ apiKey: this.apiKey || 'MISSING_KEY_PLACEHOLDER' });
+    this.transport = transport;
+    this.retryPolicy = retryPolicy;
     
     // Auto-resume audio context when tab becomes visible (fixes mobile "sudden stop" issue)
     if (typeof document !== 'undefined') {
@@ -103,6 +250,220 @@ export class LiveApiService {
     }
   }
 
+  setRecorder(recorder: SessionRecorder | null) {
+    this.recorder?.endSegment();
+    this.recorder = recorder;
+  }
+
+  /**
+   * Switches the mic mode. While connected, only muting or returning to the session's own turn mode is allowed,
+   * since hands-free and push-to-talk need different session configs. Returns false if the switch was refused.
+   */
+  setMicMode(mode: MicMode): boolean {
+    if (this.isConnected && mode !== 'muted' && (mode === 'pushToTalk') !== this.sessionUsesManualActivity) {
+      console.warn(`Cannot switch to ${mode} during a call; end the call first.`);
+      return false;
+    }
+    if (mode === this.micMode) return true;
+
+    if (this.isTalkHeld) this.stopTalking();
+    if (mode !== 'muted') this.prefersPushToTalk = mode === 'pushToTalk';
+    const wasStreaming = this.micMode === 'handsFree';
+    this.micMode = mode;
+
+    this.syncCaptureState();
+    this.syncVadSettings();
+
+    if (wasStreaming && mode === 'muted' && this.session) {
+      // The worklet drops its half-filled chunk; let the server's activity detection close the learner's turn
+      this.sendAudioStreamEnd(this.session);
+    }
+    return true;
+  }
+
+  // Gain applies immediately; a new device or processing toggle re-opens the mic without dropping the session
+  setMicSettings(settings: MicSettings) {
+    const previous = this.micSettings;
+    this.micSettings = settings;
+
+    if (this.inputGain && this.inputAudioContext) {
+      this.inputGain.gain.setTargetAtTime(settings.inputGain, this.inputAudioContext.currentTime, 0.05);
+    }
+
+    const needsNewStream = previous.deviceId !== settings.deviceId
+      || previous.echoCancellation !== settings.echoCancellation
+      || previous.noiseSuppression !== settings.noiseSuppression
+      || previous.autoGainControl !== settings.autoGainControl;
+    if (needsNewStream && this.isConnected && this.mediaStream) this.queueInputSwap('settings changed');
+  }
+
+  // The turns shown to the learner; replayed into a new session if the old one cannot be resumed
+  setConversationHistory(turns: ConversationTurn[]) {
+    this.conversationHistory = turns;
+  }
+
+  // Part of the system instruction, so it reaches the model from the next connect or reconnect
+  setChineseScript(script: ChineseScript) {
+    this.chineseScript = script;
+  }
+
+  // Takes effect immediately: audio already queued but not yet playing is regenerated at the new rate
+  setPlaybackRate(rate: number) {
+    const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    if (clamped === this.playbackRate) return;
+    this.playbackRate = clamped;
+    this.stretcher.rate = clamped;
+    this.rescheduleQueuedOutput();
+  }
+
+  // The model's audio for a turn at its original speed; empty once the turn has aged out or a new call started
+  getTurnAudio(replayId: string): AudioBuffer[] {
+    return this.replayTurns.get(replayId) || [];
+  }
+
+  setVadSettings(settings: VadSettings) {
+    this.vadSettings = settings;
+    this.syncVadSettings();
+  }
+
+  // Push-to-talk: opens a learner turn. Sending activityStart also interrupts the model if it is speaking.
+  startTalking() {
+    if (this.micMode !== 'pushToTalk' || this.isTalkHeld || !this.session || !this.isCaptureRunning) return;
+    // Close the previous turn if its flush never came back (e.g. the audio context was suspended)
+    if (this.pendingActivityEnd) this.sendActivityEnd(this.session);
+    this.isTalkHeld = true;
+    this.syncCaptureState();
+    const sessionPromise = this.session;
+    this.audioSendQueue = this.audioSendQueue
+      .then(() => this.safeSend(async (session) => {
+        await session.sendRealtimeInput({ activityStart: {} });
+      }, sessionPromise))
+      .catch((e) => console.debug("Activity start error:", e));
+  }
+
+  // Push-to-talk: asks the worklet for whatever audio is still buffered; activityEnd follows once it is sent
+  stopTalking() {
+    if (!this.isTalkHeld) return;
+    this.isTalkHeld = false;
+    if (!this.captureNode) return;
+    this.pendingActivityEnd = true;
+    this.captureNode.port.postMessage({ type: 'flush' });
+    this.syncCaptureState();
+  }
+
+  private sendActivityEnd(sessionPromise: Promise<LiveSession>) {
+    this.pendingActivityEnd = false;
+    this.audioSendQueue = this.audioSendQueue
+      .then(() => this.safeSend(async (session) => {
+        await session.sendRealtimeInput({ activityEnd: {} });
+      }, sessionPromise))
+      .catch((e) => console.debug("Activity end error:", e));
+  }
+
+  // Hands-free only: lets the server's activity detection close the learner's turn when we stop streaming
+  private sendAudioStreamEnd(sessionPromise: Promise<LiveSession>) {
+    this.audioSendQueue = this.audioSendQueue
+      .then(() => this.safeSend(async (session) => {
+        await session.sendRealtimeInput({ audioStreamEnd: true });
+      }, sessionPromise))
+      .catch((e) => console.debug("Audio stream end error:", e));
+  }
+
+  /**
+   * A replay of an earlier turn plays through the speakers, outside the model output path. The mic is closed
+   * until it ends, so the replay is not streamed to the model, recorded as the learner or pitch-tracked.
+   */
+  beginLocalPlayback() {
+    this.localPlaybackCount += 1;
+    this.syncCaptureState();
+  }
+
+  endLocalPlayback() {
+    this.localPlaybackCount = Math.max(0, this.localPlaybackCount - 1);
+    this.syncCaptureState();
+  }
+
+  private isMicOpen(): boolean {
+    if (this.localPlaybackCount > 0) return false;
+    return this.micMode === 'handsFree' || (this.micMode === 'pushToTalk' && this.isTalkHeld);
+  }
+
+  // Muted, or push-to-talk with the button released: the worklet stops capturing, so that audio never leaves the device
+  private syncCaptureState() {
+    this.captureNode?.port.postMessage({ type: 'capture', enabled: this.isMicOpen() });
+  }
+
+  // Voice activity gating only applies hands-free; in push-to-talk the learner decides what is sent
+  private getWorkletVadConfig() {
+    return { ...this.vadSettings, enabled: this.vadSettings.enabled && this.micMode === 'handsFree' };
+  }
+
+  private syncVadSettings() {
+    this.captureNode?.port.postMessage({ type: 'vad', ...this.getWorkletVadConfig() });
+  }
+
+  // Only input devices matter; output-only changes (e.g. speakers) are ignored
+  private async getInputDeviceSignature(): Promise<string> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(d => d.kind === 'audioinput').map(d => d.deviceId).sort().join('|');
+  }
+
+  // A headset was plugged in or removed: re-open the preferred mic, or the default if it is gone
+  private handleDeviceChange = async () => {
+    if (!this.isConnected || !this.mediaStream) return;
+    try {
+      const signature = await this.getInputDeviceSignature();
+      if (signature === this.inputDeviceSignature) return;
+      this.queueInputSwap('device list changed');
+    } catch (e) {
+      console.debug("Device enumeration failed", e);
+    }
+  };
+
+  private watchInputTrack(stream: MediaStream) {
+    const track = stream.getAudioTracks()[0];
+    if (track) track.onended = () => this.queueInputSwap('input device lost');
+  }
+
+  private queueInputSwap(reason: string) {
+    this.inputSwap = this.inputSwap
+      .then(() => this.swapInputStream(reason))
+      .catch((e) => {
+        console.warn("Microphone switch failed:", e);
+        if (this.isConnected) this.callbacks.onError(classifyMicrophoneError(e, "Could not switch microphone. Check the mic settings."));
+      });
+  }
+
+  private async swapInputStream(reason: string) {
+    if (!this.isConnected || this.isDisconnecting) return;
+    console.debug(`Switching microphone (${reason})`);
+
+    const stream = await openMicrophone(this.micSettings);
+    if (!this.isConnected || this.isDisconnecting || !this.inputAudioContext) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const previousStream = this.mediaStream;
+    const previousSource = this.source;
+    this.mediaStream = stream;
+    this.watchInputTrack(stream);
+
+    // Streaming may not have started yet; startAudioInputStreaming will pick up the new stream then
+    if (this.inputGain) {
+      this.source = this.inputAudioContext.createMediaStreamSource(stream);
+      this.source.connect(this.inputGain);
+    }
+    if (previousSource) {
+      try { previousSource.disconnect(); } catch (e) {}
+    }
+    previousStream?.getTracks().forEach(track => {
+      track.onended = null;
+      try { track.stop(); } catch (e) {}
+    });
+    this.inputDeviceSignature = await this.getInputDeviceSignature().catch(() => '');
+  }
+
   private handleVisibilityChange = async () => {
       if (document.visibilityState === 'visible' && this.isConnected) {
           if (this.inputAudioContext?.state === 'suspended') {
@@ -114,12 +475,13 @@ export class LiveApiService {
       }
   };
 
-  async connect(scenarioInstruction?: string, speakingRate: number = 1.0) {
+  async connect(scenarioInstruction?: string, speakingRate: number = 1.0, objectives: LessonObjective[] = [], persona: TutorPersona = DEFAULT_PERSONA) {
     if (this.session || this.isConnected) return;
     
-    // Check for API Key before attempting anything
-    if (!this.apiKey || this.apiKey === 'MISSING_KEY_PLACEHOLDER') {
-        this.callbacks.onError("API Key not found. Please add 'VITE_API_KEY=AIza...' to your .env file.");
+    // Check the transport is usable (e.g. API key present) before attempting anything
+    const configError = this.transport.getConfigurationError();
+    if (configError) {
+        this.callbacks.onError(configError);
         return;
     }
 
@@ -128,22 +490,35 @@ export class LiveApiService {
     this.isDisconnecting = false;
     this.hasReportedFatalError = false;
     this.isReportingError = false;
-    this.internalErrorRetryCount = 0;
     this.lastScenarioInstruction = scenarioInstruction;
     this.lastSpeakingRate = speakingRate;
+    this.lastObjectives = objectives;
+    this.lastPersona = persona;
+    this.sessionUsesManualActivity = this.prefersPushToTalk;
+    this.isTalkHeld = false;
+    const isReconnect = this.isRecovering;
+    if (!isReconnect) {
+      this.reconnectAttempt = 0;
+      this.resumptionHandle = null;
+      this.completedObjectiveIds.clear();
+      this.replayTurns.clear();
+      this.openReplayId = null;
+    }
+    this.isRecovering = false;
+    this.sessionUsesResumptionHandle = isReconnect && !!this.resumptionHandle;
+    this.hasSessionMessages = false;
+    this.isServerGoingAway = false;
 
     // 1. Acquire Microphone Stream FIRST
     try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      this.mediaStream = await openMicrophone(this.micSettings);
+      this.watchInputTrack(this.mediaStream);
+      // Registered per call and removed in stop(), so a discarded service does not keep listening
+      navigator.mediaDevices.addEventListener?.('devicechange', this.handleDeviceChange);
+      this.inputDeviceSignature = await this.getInputDeviceSignature().catch(() => '');
     } catch (error: any) {
       console.error("Microphone access error:", error);
-      let errorMessage = "Failed to access microphone.";
-      if (error.name === 'NotFoundError' || error.message.includes('Requested device not found')) {
-        errorMessage = "No microphone found. Please connect a microphone and try again.";
-      } else if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
-        errorMessage = "Microphone permission denied. Please allow microphone access settings.";
-      }
-      this.handleFatalError(errorMessage);
+      this.handleFatalError(classifyMicrophoneError(error));
       return; 
     }
 
@@ -151,12 +526,19 @@ export class LiveApiService {
       // 2. Initialize Audio Contexts
       this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
       await this.inputAudioContext.resume();
+      try {
+        await this.inputAudioContext.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+      } catch (e) {
+        console.error("Failed to load audio capture worklet:", e);
+        this.handleFatalError(new LiveServiceError('AUDIO_UNSUPPORTED', undefined, String(e)));
+        return;
+      }
 
       this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       await this.outputAudioContext.resume();
 
       this.outputAnalyser = this.outputAudioContext.createAnalyser();
-      this.outputAnalyser.fftSize = 256;
+      this.outputAnalyser.fftSize = 512; // ~47 Hz bins, fine enough to separate formant bands for lip sync
       this.startVolumeMonitoring();
 
       const baseInstruction = `You are a helpful, patient, and friendly Mandarin Chinese language conversation partner and pronunciation coach. 
@@ -167,9 +549,14 @@ export class LiveApiService {
       2. PRONUNCIATION COACHING: Listen carefully to the user's input. If they speak Mandarin, analyze their pronunciation immediately.
           - Call the 'provide_pronunciation_feedback' tool with the text you heard, the pinyin, a score (0-100), and constructive feedback.
           - Do this silently via the tool.
+      3. EXPRESSIONS: Call 'set_expression' when your face should show an emotion (surprised, thinking, confused, smile, encouraging). Do this silently via the tool.
+      4. GRAMMAR: When the user makes a grammar mistake, correct them gently in speech as usual, and also call 'report_grammar_error' with their sentence, the corrected sentence, the grammar point and a short explanation.
       
       Always provide Hanzi, Pinyin, and English for your own speech in the subtitles.`;
 
+      // The persona sets who the tutor is; a lesson scenario may still give them a role to play
+      const personaInstruction = `PERSONA:\n${persona.personality}\n${FORMALITY_INSTRUCTIONS[persona.formality]}`;
+
       let rateInstruction = "";
       if (speakingRate <= 0.8) {
         rateInstruction = "IMPORTANT: Speak slower than normal. Articulate very clearly and pause slightly between phrases.";
@@ -179,27 +566,46 @@ export class LiveApiService {
         rateInstruction = "IMPORTANT: Speak at a fast, fluent native pace.";
       }
 
+      // The UI converts whatever the model writes, but asking for Traditional avoids a lossy round trip
+      const scriptInstruction = this.chineseScript === 'traditional'
+        ? "\n\nCHARACTERS: Write all Hanzi in Traditional characters (繁體字) as used in Taiwan, in the subtitles and in every tool call."
+        : "";
+
       const contextInstruction = scenarioInstruction || `CONVERSATION CONTEXT:
       Help the user practice spoken Mandarin in a free-flowing conversation. 
       Speak with a clear, standard accent. Keep sentences simple for a learner. 
       Ask questions to keep the conversation going.`;
 
-      // Connect to Gemini Live
-      const sessionPromise = this.ai.live.connect({
+      const objectivesInstruction = this.buildObjectivesInstruction();
+      // A resumed session already remembers the conversation
+      const transcriptInstruction = isReconnect && !this.sessionUsesResumptionHandle ? this.buildTranscriptInstruction() : '';
+      const functionDeclarations = objectives.length > 0
+        ? [updateSubtitlesTool, pronunciationFeedbackTool, setExpressionTool, reportGrammarErrorTool, markObjectiveCompleteTool]
+        : [updateSubtitlesTool, pronunciationFeedbackTool, setExpressionTool, reportGrammarErrorTool];
+
+      // Connect to Gemini Live (or the offline fake, depending on the transport)
+      const sessionPromise = this.transport.connect({
         model: MODEL_NAME,
         config: {
           responseModalities: [Modality.AUDIO],
-          tools: [{ functionDeclarations: [updateSubtitlesTool, pronunciationFeedbackTool] }],
+          tools: [{ functionDeclarations }],
           inputAudioTranscription: {}, 
-          systemInstruction: `${baseInstruction}\n\n${rateInstruction}\n\n${contextInstruction}`,
+          realtimeInputConfig: this.sessionUsesManualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
+          sessionResumption: { handle: this.sessionUsesResumptionHandle ? this.resumptionHandle : undefined },
+          systemInstruction: `${baseInstruction}\n\n${personaInstruction}\n\n${rateInstruction}${scriptInstruction}\n\n${contextInstruction}${objectivesInstruction}${transcriptInstruction}`,
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.voiceName } }
           }
         },
         callbacks: {
           onopen: () => {
             if (this.isConnected && !this.isDisconnecting) {
               this.callbacks.onStateChange('CONNECTED');
+              // Only a session that stays up refills the reconnect budget; one that fails right away keeps using it up
+              this.stableSessionTimer = setTimeout(() => {
+                this.stableSessionTimer = null;
+                this.reconnectAttempt = 0;
+              }, this.retryPolicy.stableAfterMs);
               // Increased delay to 1000ms to ensure server session is fully stabilized and audio contexts are ready
               setTimeout(() => {
                 if (this.isConnected && !this.isDisconnecting) {
@@ -214,48 +620,35 @@ export class LiveApiService {
             if (!this.isConnected || this.isDisconnecting) return;
             await this.handleMessage(message, sessionPromise);
           },
-          onclose: () => {
-            console.log("Session closed by server");
-            if (this.isConnected && !this.isDisconnecting) {
-                // If server closes unexpectedly (e.g. timeout), treat as disconnect
+          onclose: (e?: CloseEvent) => {
+            console.log("Session closed by server", e?.code, e?.reason);
+            // Late close of a socket that a reconnect already replaced
+            if (!this.isConnected || this.isDisconnecting || this.session !== sessionPromise) return;
+            if (this.isServerGoingAway) {
+                // A planned server disconnect: pick the conversation up on a new socket
+                this.handleRecoverableError(new LiveServiceError('SESSION_EXPIRED'), 'server go-away');
+            } else if (!e || e.code === 1000) {
+                // A normal close from the server (e.g. session ended) is treated as a disconnect
                 this.stop();
+            } else {
+                const error = classifyLiveError(e);
+                if (error.retryable) this.handleRecoverableError(error, `socket close (${e.code})`);
+                else this.handleFatalError(error);
             }
           },
           onerror: (e: any) => {
             // Guard against multiple simultaneous error reports
-            if (this.isDisconnecting || this.hasReportedFatalError || this.isReportingError) return;
+            if (this.isDisconnecting || this.hasReportedFatalError || this.isReportingError || this.session !== sessionPromise) return;
             this.isReportingError = true;
-            
-            let errorStr = "Unknown error";
-            if (e instanceof Error) {
-                errorStr = e.message;
-            } else if (e instanceof ErrorEvent) {
-                errorStr = e.message || "WebSocket/Network Error";
-            } else if (typeof e === 'string') {
-                errorStr = e;
-            } else {
-                try {
-                    errorStr = JSON.stringify(e);
-                } catch {
-                    errorStr = String(e);
-                }
-            }
-
-            // Filter common transient errors or trigger recovery
-            if (errorStr.includes("Network error") || errorStr.includes("Failed to fetch") || errorStr.includes("WebSocket")) {
-                console.warn("Network instability detected:", errorStr);
-                // Try to recover from network errors instead of just ignoring them, as the socket might be dead
-                this.handleInternalErrorRecovery('network error');
-                return;
-            }
-
-            console.error('Session error object:', e);
 
-            if (errorStr.includes("Internal error")) {
-                // Attempt a quick reconnect on transient internal errors before surfacing fatal state
-                this.handleInternalErrorRecovery('session');
+            // Transient failures (dropped socket, server hiccup) reconnect; the rest end the call with a recovery hint
+            const error = classifyLiveError(e);
+            if (error.retryable) {
+                console.warn(`Recoverable session error (${error.code}):`, error.detail);
+                this.handleRecoverableError(error, 'session');
             } else {
-                this.handleFatalError("Connection error: " + errorStr);
+                console.error('Session error object:', e);
+                this.handleFatalError(error);
             }
           }
         }
@@ -264,8 +657,13 @@ export class LiveApiService {
       // Handle initial rejection
       sessionPromise.catch((e: any) => {
          console.warn("Session connection refused/rejected:", e);
-         if (this.isConnected && !this.isDisconnecting) {
-           this.handleFatalError("Failed to establish connection to AI.");
+         if (!this.isConnected || this.isDisconnecting) return;
+         const error = classifyLiveError(e, 'NETWORK');
+         if (isReconnect && error.retryable) {
+           // Still offline, or the resumption handle expired: keep retrying within the budget
+           this.handleRecoverableError(error, 'reconnect');
+         } else {
+           this.handleFatalError(error);
          }
       });
 
@@ -273,12 +671,12 @@ export class LiveApiService {
 
     } catch (error) {
       console.error("Connection initialization failed:", error);
-      this.handleFatalError("Failed to initialize connection.");
+      this.handleFatalError(classifyLiveError(error));
     }
   }
 
   // Wrapper for safe API calls
-  private async safeSend(action: (session: any) => Promise<void>, sessionPromise: Promise<any>) {
+  private async safeSend(action: (session: LiveSession) => Promise<void>, sessionPromise: Promise<LiveSession>) {
     if (!this.isConnected || this.isDisconnecting || this.hasReportedFatalError) return;
     
     try {
@@ -291,34 +689,41 @@ export class LiveApiService {
         // Suppress errors during disconnection
         if (!this.isConnected || this.isDisconnecting) return; 
         
-        const errStr = String(e);
-        console.debug("SafeSend failed:", errStr);
+        const error = classifyLiveError(e);
+        console.debug("SafeSend failed:", error.code, error.detail);
 
-        // If it's an internal error OR network error during a send, attempt recovery
-        if ((errStr.includes("Internal error") || errStr.includes("Network error")) && !this.hasReportedFatalError) {
-             this.handleInternalErrorRecovery('data transmission');
+        // A send on a dead socket is the first sign of a dropped connection
+        if (error.retryable && !this.hasReportedFatalError) {
+             this.handleRecoverableError(error, 'data transmission');
         }
     }
   }
 
-  private handleFatalError(msg: string) {
+  private handleFatalError(error: LiveServiceError) {
       if (this.hasReportedFatalError) return;
       this.hasReportedFatalError = true;
       this.isDisconnecting = true; // Stop everything immediately
-      console.error("Fatal Error Triggered:", msg);
-      this.callbacks.onError(msg);
+      console.error(`Fatal Error Triggered (${error.code}):`, error.message, error.detail ?? '');
+      this.callbacks.onError(error);
       this.callbacks.onStateChange('ERROR');
       this.stop();
   }
 
-  private handleInternalErrorRecovery(origin: string) {
-      if (this.internalErrorRetryCount >= this.MAX_INTERNAL_ERROR_RETRIES) {
-          this.handleFatalError("Session interrupted (Connection unstable). Please restart.");
+  private handleRecoverableError(error: LiveServiceError, origin: string) {
+      if (this.reconnectAttempt >= this.retryPolicy.maxAttempts) {
+          this.handleFatalError(error.withMessage("Session interrupted (Connection unstable). Please restart."));
           return;
       }
 
-      this.internalErrorRetryCount += 1;
-      console.warn(`Error encountered during ${origin}. Attempting quick reconnect (${this.internalErrorRetryCount}/${this.MAX_INTERNAL_ERROR_RETRIES})...`);
+      this.reconnectAttempt += 1;
+      const attempt = this.reconnectAttempt;
+      const delay = getRetryDelay(this.retryPolicy, attempt);
+      console.warn(`${error.code} error during ${origin}. Reconnecting in ${delay} ms (${attempt}/${this.retryPolicy.maxAttempts})...`);
+
+      // A resumed session that failed before the server said anything most likely has an expired handle
+      if (this.sessionUsesResumptionHandle && !this.hasSessionMessages) {
+          this.resumptionHandle = null;
+      }
 
       // Stop current session but immediately move back to connecting state
       this.stop();
@@ -326,74 +731,109 @@ export class LiveApiService {
       this.hasReportedFatalError = false;
       this.isReportingError = false;
 
-      this.callbacks.onError("Connection unstable. Reconnecting...");
+      this.callbacks.onError(error.withMessage(`Connection unstable. Reconnecting (${attempt}/${this.retryPolicy.maxAttempts})...`));
       this.callbacks.onStateChange('CONNECTING');
 
       const scenario = this.lastScenarioInstruction;
       const speakingRate = this.lastSpeakingRate;
+      const objectives = this.lastObjectives;
+      const persona = this.lastPersona;
 
-      // Give the server a brief moment before re-establishing the session
-      setTimeout(() => {
+      this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
           if (!this.hasReportedFatalError && !this.isConnected && !this.isDisconnecting) {
-              this.connect(scenario, speakingRate);
+              this.isRecovering = true;
+              this.connect(scenario, speakingRate, objectives, persona);
           }
-      }, 750);
+      }, delay);
   }
 
-  private startAudioInputStreaming(sessionPromise: Promise<any>) {
+  private startAudioInputStreaming(sessionPromise: Promise<LiveSession>) {
     if (!this.inputAudioContext || !this.mediaStream) return;
 
     this.source = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
     this.inputGain = this.inputAudioContext.createGain();
-    this.inputGain.gain.value = 1.2; 
+    this.inputGain.gain.value = this.micSettings.inputGain;
 
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-    this.isProcessorRunning = true;
-    this.audioBufferChunks = [];
-    this.currentBufferSize = 0;
+    // Downsampling, buffering and Int16 packing happen on the audio thread; we only receive ready chunks
+    this.captureNode = new AudioWorkletNode(this.inputAudioContext, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: { chunkSize: this.BUFFER_THRESHOLD, targetSampleRate: 16000, vad: this.getWorkletVadConfig() },
+    });
+    this.isCaptureRunning = true;
+    this.pendingActivityEnd = false;
     this.audioSendQueue = Promise.resolve();
     this.isProcessingTool = false; // Reset lock
+    this.pitchTracker.reset();
+    this.isModelSpeaking = false;
+    this.syncCaptureState();
 
-    this.processor.onaudioprocess = (audioProcessingEvent) => {
-      // Logic:
-      // 1. Check basic state
-      // 2. Check if we are currently waiting for a tool response (Subtitles/Feedback).
-      //    If we are, we pause sending audio to prevent interrupting the AI or causing race conditions.
-      if (!this.isConnected || !this.isProcessorRunning || this.isDisconnecting || this.isProcessingTool) return;
-
-      const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-      const downsampledData = downsampleTo16k(inputData, this.inputAudioContext!.sampleRate);
-      
-      this.audioBufferChunks.push(downsampledData);
-      this.currentBufferSize += downsampledData.length;
-
-      if (this.currentBufferSize >= this.BUFFER_THRESHOLD) {
-          const mergedBuffer = concatenateFloat32Buffers(this.audioBufferChunks);
-          this.audioBufferChunks = [];
-          this.currentBufferSize = 0;
-
-          if (mergedBuffer.length === 0) return;
-
-          const pcmBlob = createPcmBlob(mergedBuffer);
-
-          this.audioSendQueue = this.audioSendQueue
-              .then(() => this.safeSend(async (session) => {
-                  await session.sendRealtimeInput({ media: pcmBlob });
-              }, sessionPromise))
-              .catch((e) => {
-                   // Just log debug, safeSend handles the fatal logic if needed
-                   console.debug("Audio queue chain error:", e);
-              });
+    this.captureNode.port.onmessage = (event: MessageEvent<CapturedChunkMessage | InputLevelMessage>) => {
+      if (event.data.type === 'chunk') {
+        this.handleCapturedChunk(event.data, sessionPromise);
+      } else if (event.data.type === 'level' && this.isConnected) {
+        this.callbacks.onInputLevel({ db: event.data.db, isSpeech: event.data.speech });
       }
     };
 
     this.source.connect(this.inputGain);
-    this.inputGain.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
+    this.inputGain.connect(this.captureNode);
+    // The node outputs silence; connecting it keeps the graph pulling it in every browser
+    this.captureNode.connect(this.inputAudioContext.destination);
+  }
+
+  private handleCapturedChunk({ samples, flushed, endOfSpeech }: CapturedChunkMessage, sessionPromise: Promise<LiveSession>) {
+    // Logic:
+    // 1. Check basic state
+    // 2. Check if we are currently waiting for a tool response (Subtitles/Feedback).
+    //    If we are, we drop the audio to prevent interrupting the AI or causing race conditions.
+    if (!this.isConnected || !this.isCaptureRunning || this.isDisconnecting) return;
+
+    // The tail of a push-to-talk turn arrives after the button was released, so it bypasses the mic check
+    const endsTurn = flushed && this.pendingActivityEnd;
+    const shouldSend = (this.isMicOpen() || endsTurn) && !this.isProcessingTool && samples.length > 0;
+
+    if (shouldSend) {
+      if (!this.isModelSpeaking && this.scheduledOutput.length === 0) {
+          const floatSamples = int16ToFloat(samples);
+          this.pitchTracker.push(floatSamples);
+          this.recorder?.appendUserAudio(floatSamples, 16000);
+      }
+
+      const pcmBlob = createPcmBlob(samples);
+      this.audioSendQueue = this.audioSendQueue
+          .then(() => this.safeSend(async (session) => {
+              await session.sendRealtimeInput({ media: pcmBlob });
+          }, sessionPromise))
+          .catch((e) => {
+               // Just log debug, safeSend handles the fatal logic if needed
+               console.debug("Audio queue chain error:", e);
+          });
+    }
+
+    if (endsTurn) this.sendActivityEnd(sessionPromise);
+
+    // Nothing is streamed during silence, so tell the server's activity detection the learner has stopped
+    if (endOfSpeech && this.micMode === 'handsFree' && !this.sessionUsesManualActivity) {
+      this.sendAudioStreamEnd(sessionPromise);
+    }
   }
 
-  private async handleMessage(message: LiveServerMessage, sessionPromise: Promise<any>) {
+  private async handleMessage(message: LiveServerMessage, sessionPromise: Promise<LiveSession>) {
     if (this.isDisconnecting || this.hasReportedFatalError) return;
+    this.hasSessionMessages = true;
+
+    // 0. Session lifecycle
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+    }
+    if (message.goAway) {
+      // The server will close this socket shortly; the close handler reconnects with the latest handle
+      console.debug("Server going away in", message.goAway.timeLeft);
+      this.isServerGoingAway = true;
+    }
 
     // 1. Transcript
     if (message.serverContent?.inputTranscription) {
@@ -403,16 +843,41 @@ export class LiveApiService {
        this.callbacks.onUserTranscript(this.currentInputTranscription.trim());
        this.currentInputTranscription = '';
     }
+    if (message.serverContent?.turnComplete) {
+       this.isModelSpeaking = false;
+       this.recorder?.endSegment();
+       this.closeReplayTurn();
+       // Release the audio the stretcher holds back while it waits for more input
+       if (this.isOutputTurnOpen) {
+         this.isOutputTurnOpen = false;
+         this.scheduleModelAudio(this.stretcher.position, this.stretcher.flush());
+       }
+    }
 
     // 2. Batched Tool Responses
     if (message.toolCall) {
+      // Before the callbacks, so the contour is out before the feedback that scores the same utterance
+      this.startModelResponse();
       this.isProcessingTool = true; // LOCK audio sending
       const functionResponses = [];
       for (const fc of message.toolCall.functionCalls) {
         if (fc.name === 'update_subtitles') {
-          this.callbacks.onSubtitle(fc.args as unknown as SubtitleData);
+          this.callbacks.onSubtitle(fc.args as unknown as SubtitleData, this.openReplayTurn());
         } else if (fc.name === 'provide_pronunciation_feedback') {
            this.callbacks.onPronunciationFeedback(fc.args as unknown as PronunciationFeedback);
+        } else if (fc.name === 'report_grammar_error') {
+           const report = parseGrammarError(fc.args);
+           if (report) this.callbacks.onGrammarError(report);
+           functionResponses.push({ id: fc.id, name: fc.name, response: { result: report ? 'ok' : 'learnerSentence, correctedSentence, grammarPoint and explanation are all required' } });
+           continue;
+        } else if (fc.name === 'set_expression') {
+           const expression = AVATAR_EXPRESSIONS.find(e => e === fc.args?.expression);
+           if (expression) this.callbacks.onExpression(expression);
+           functionResponses.push({ id: fc.id, name: fc.name, response: { result: expression ? 'ok' : `unknown expression. Valid: ${AVATAR_EXPRESSIONS.join(', ')}` } });
+           continue;
+        } else if (fc.name === 'mark_objective_complete') {
+           functionResponses.push({ id: fc.id, name: fc.name, response: { result: this.completeObjective(fc.args?.objectiveId) } });
+           continue;
         }
         functionResponses.push({
           id: fc.id,
@@ -440,35 +905,180 @@ export class LiveApiService {
     // 3. Audio Output
     const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     if (base64Audio && this.outputAudioContext && this.outputAnalyser && this.isConnected) {
+      this.startModelResponse();
       try {
         const audioBytes = base64ToBytes(base64Audio);
         const audioBuffer = await decodeAudioData(audioBytes, this.outputAudioContext, 24000, 1);
         
+        const samples = audioBuffer.getChannelData(0);
+        this.replayTurns.get(this.openReplayTurn())?.push(audioBuffer);
+
         this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
+        // The recording keeps the model's original speed
+        this.recorder?.appendModelAudio(
+            samples,
+            audioBuffer.sampleRate,
+            Date.now() + (this.nextStartTime - this.outputAudioContext.currentTime) * 1000
+        );
 
-        const source = this.outputAudioContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(this.outputAnalyser);
-        this.outputAnalyser.connect(this.outputAudioContext.destination);
-        source.start(this.nextStartTime);
-        this.nextStartTime += audioBuffer.duration;
-        
-        this.sources.add(source);
-        source.onended = () => this.sources.delete(source);
+        if (!this.isOutputTurnOpen) {
+          this.isOutputTurnOpen = true;
+          this.resetStretcher();
+          this.outputTurn = { replayId: this.openReplayTurn(), startTime: null };
+        }
+        const inputStart = this.stretcher.position;
+        this.scheduleModelAudio(inputStart, this.stretcher.push(samples));
       } catch (err) {
         console.error("Audio decode error:", err);
       }
     }
 
     if (message.serverContent?.interrupted) {
-      this.sources.forEach(source => { try { source.stop(); } catch(e) {} });
-      this.sources.clear();
+      this.stopScheduledOutput();
+      this.isOutputTurnOpen = false;
+      this.outputTurn = null;
+      this.resetStretcher();
       this.nextStartTime = 0;
       this.currentInputTranscription = '';
-      this.audioBufferChunks = [];
-      this.currentBufferSize = 0;
+      this.captureNode?.port.postMessage({ type: 'reset' });
       this.isProcessingTool = false; // Reset lock on interrupt
+      this.isModelSpeaking = false; // The learner barged in, so start tracking their pitch again
+      this.recorder?.endSegment();
+      this.closeReplayTurn();
+    }
+  }
+
+  private openReplayTurn(): string {
+    if (!this.openReplayId) {
+      this.openReplayId = Date.now().toString() + Math.random();
+      this.replayTurns.set(this.openReplayId, []);
+      // Older turns fall back to the session recording
+      while (this.replayTurns.size > MAX_REPLAY_TURNS) this.replayTurns.delete(this.replayTurns.keys().next().value);
     }
+    return this.openReplayId;
+  }
+
+  // A subtitle-only turn stays open so the audio that follows it is filed under the same turn
+  private closeReplayTurn() {
+    if (this.openReplayId && this.replayTurns.get(this.openReplayId)?.length) this.openReplayId = null;
+  }
+
+  private resetStretcher() {
+    this.stretcher.reset();
+    this.stretcherGeneration += 1;
+  }
+
+  private scheduleModelAudio(inputStart: number, samples: Float32Array) {
+    if (samples.length === 0 || !this.outputAudioContext || !this.outputAnalyser) return;
+    const context = this.outputAudioContext;
+
+    const buffer = context.createBuffer(1, samples.length, 24000);
+    buffer.copyToChannel(samples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.outputAnalyser);
+    this.outputAnalyser.connect(context.destination);
+
+    this.nextStartTime = Math.max(this.nextStartTime, context.currentTime);
+    if (this.outputTurn && this.outputTurn.startTime === null) this.outputTurn.startTime = this.nextStartTime;
+    source.start(this.nextStartTime);
+    const entry: ScheduledOutput = { source, startTime: this.nextStartTime, inputStart, generation: this.stretcherGeneration };
+    this.nextStartTime += buffer.duration;
+
+    this.scheduledOutput.push(entry);
+    source.onended = () => {
+      this.scheduledOutput = this.scheduledOutput.filter(e => e !== entry);
+    };
+  }
+
+  private stopScheduledOutput(entries: ScheduledOutput[] = this.scheduledOutput) {
+    entries.forEach(({ source }) => {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    });
+    this.scheduledOutput = this.scheduledOutput.filter(e => !entries.includes(e));
+  }
+
+  // Drops queued chunks of the current turn that have not started and re-stretches their input at the new rate,
+  // starting where the chunk now playing ends
+  private rescheduleQueuedOutput() {
+    if (!this.outputAudioContext) return;
+    const cutoff = this.outputAudioContext.currentTime + RESCHEDULE_MARGIN_S;
+    const pending = this.scheduledOutput.filter(e => e.startTime > cutoff && e.generation === this.stretcherGeneration);
+    if (pending.length === 0) return; // Audio still to come is stretched at the new rate anyway
+
+    this.stopScheduledOutput(pending);
+    this.nextStartTime = pending[0].startTime;
+    this.scheduleModelAudio(pending[0].inputStart, this.stretcher.rewind(pending[0].inputStart));
+  }
+
+  private buildObjectivesInstruction(): string {
+    if (this.lastObjectives.length === 0) return '';
+    const list = this.lastObjectives
+      .map(o => `- ${o.id}: ${o.description}${this.completedObjectiveIds.has(o.id) ? ' (ALREADY DONE)' : ''}`)
+      .join('\n');
+    return `\n\nLESSON OBJECTIVES (in order):\n${list}\n` +
+      `When the user accomplishes an objective, call 'mark_objective_complete' with its id. Do this silently via the tool. ` +
+      `When every objective is done, congratulate the user and tell them the lesson is complete.`;
+  }
+
+  // Condensed recent transcript so a fresh session continues the roleplay instead of starting over
+  private buildTranscriptInstruction(): string {
+    const merged: { role: ConversationTurn['role']; text: string }[] = [];
+    for (const turn of this.conversationHistory) {
+      const text = turn.text.trim();
+      if (!text) continue;
+      const last = merged[merged.length - 1];
+      // Subtitles arrive per sentence; one speaker's consecutive lines read as one turn
+      if (last && last.role === turn.role) last.text += ` ${text}`;
+      else merged.push({ role: turn.role, text });
+    }
+    if (merged.length === 0) return '';
+
+    const recent = merged.slice(-SEED_TRANSCRIPT_TURNS);
+    const lines = recent.map(turn => {
+      const text = turn.text.length > SEED_TRANSCRIPT_TURN_CHARS ? `${turn.text.slice(0, SEED_TRANSCRIPT_TURN_CHARS)}…` : turn.text;
+      return `${turn.role === 'ai' ? 'You' : 'User'}: ${text}`;
+    });
+    const omitted = merged.length - recent.length;
+    return `\n\nCONVERSATION SO FAR (the connection dropped and has just been restored${omitted > 0 ? `; ${omitted} earlier turns omitted` : ''}):\n${lines.join('\n')}\n` +
+      `Continue the conversation from where it stopped. Do not greet the user again or restart the scenario.`;
+  }
+
+  // Validates the id so the model gets told when it reports an objective that does not exist
+  private completeObjective(objectiveId: unknown): string {
+    const objective = this.lastObjectives.find(o => o.id === objectiveId);
+    if (!objective) {
+      return `unknown objective id. Valid ids: ${this.lastObjectives.map(o => o.id).join(', ') || 'none'}`;
+    }
+    if (!this.completedObjectiveIds.has(objective.id)) {
+      this.completedObjectiveIds.add(objective.id);
+      this.callbacks.onObjectiveComplete(objective.id);
+    }
+    const remaining = this.lastObjectives.filter(o => !this.completedObjectiveIds.has(o.id));
+    return remaining.length === 0 ? 'ok, all objectives complete' : `ok, next objective: ${remaining[0].id}`;
+  }
+
+  // The first audio or tool call of a model turn means the learner has finished their utterance
+  private startModelResponse() {
+    if (this.isModelSpeaking) return;
+    this.isModelSpeaking = true;
+    this.emitUserPitchContour();
+  }
+
+  private emitUserPitchContour() {
+    if (!this.pitchTracker.hasVoicedFrames()) {
+      this.pitchTracker.reset();
+      return;
+    }
+    const contour = this.pitchTracker.finish();
+    if (contour) this.callbacks.onUserPitchContour(contour);
+  }
+
+  private setPlayingReplayId(replayId: string | null) {
+    if (replayId === this.playingReplayId) return;
+    this.playingReplayId = replayId;
+    this.callbacks.onPlayingTurnChange(replayId);
   }
 
   private startVolumeMonitoring() {
@@ -476,12 +1086,26 @@ export class LiveApiService {
       if (!this.isConnected || this.isDisconnecting) return; 
 
       if (this.outputAnalyser && this.outputAudioContext && this.outputAudioContext.state !== 'closed') {
-        const dataArray = new Uint8Array(this.outputAnalyser.frequencyBinCount);
-        this.outputAnalyser.getByteFrequencyData(dataArray);
+        const analyser = this.outputAnalyser;
+        const dataArray = new Uint8Array(analyser.frequencyBinCount);
+        analyser.getByteFrequencyData(dataArray);
         let sum = 0;
         for (let i = 0; i < dataArray.length; i++) { sum += dataArray[i]; }
         const average = sum / dataArray.length;
-        this.callbacks.onAudioVolume(average / 255);
+
+        const turn = this.outputTurn;
+        const turnStart = turn?.startTime ?? this.outputAudioContext.currentTime;
+        const frame: OutputAudioFrame = {
+          volume: average / 255,
+          bands: measureBands(dataArray, this.outputAudioContext.sampleRate, analyser.minDecibels, analyser.maxDecibels),
+          replayId: turn?.replayId ?? null,
+          turnElapsed: Math.max(0, this.outputAudioContext.currentTime - turnStart),
+          turnDuration: Math.max(0, this.nextStartTime - turnStart),
+          isTurnComplete: !this.isOutputTurnOpen,
+        };
+        this.callbacks.onOutputAudio(frame);
+        const hasPlayedOut = frame.isTurnComplete && frame.turnElapsed >= frame.turnDuration;
+        this.setPlayingReplayId(hasPlayedOut ? null : frame.replayId);
         this.animationFrameId = requestAnimationFrame(updateVolume);
       }
     };
@@ -491,16 +1115,27 @@ export class LiveApiService {
   stop() {
     // Immediate state lock to prevent new actions
     this.isDisconnecting = true;
+    if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+    }
+    if (this.stableSessionTimer) {
+        clearTimeout(this.stableSessionTimer);
+        this.stableSessionTimer = null;
+    }
     this.isConnected = false;
-    this.isProcessorRunning = false;
+    this.isCaptureRunning = false;
     this.isProcessingTool = false;
+    this.isTalkHeld = false;
 
-    // Cut off the audio processor loop immediately
-    if (this.processor) {
-        this.processor.onaudioprocess = null;
-        try { this.processor.disconnect(); } catch (e) {}
-        this.processor = null;
+    // Cut off the capture worklet immediately
+    if (this.captureNode) {
+        this.captureNode.port.onmessage = null;
+        this.captureNode.port.postMessage({ type: 'capture', enabled: false });
+        try { this.captureNode.disconnect(); } catch (e) {}
+        this.captureNode = null;
     }
+    this.pendingActivityEnd = false;
     
     if (this.inputGain) {
         try { this.inputGain.disconnect(); } catch (e) {}
@@ -512,17 +1147,20 @@ export class LiveApiService {
         this.source = null;
     }
 
+    if (typeof navigator !== 'undefined') navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
     if (this.mediaStream) {
         this.mediaStream.getTracks().forEach(track => {
+            track.onended = null;
             try { track.stop(); } catch (e) {}
         });
         this.mediaStream = null;
     }
 
-    this.sources.forEach(source => {
-      try { source.stop(); } catch (e) {}
-    });
-    this.sources.clear();
+    this.stopScheduledOutput();
+    this.isOutputTurnOpen = false;
+    this.outputTurn = null;
+    this.resetStretcher();
+    this.setPlayingReplayId(null);
 
     if (this.session) {
       // We ignore errors here because we are intentionally closing
@@ -544,8 +1182,9 @@ export class LiveApiService {
       this.outputAudioContext = null;
     }
     
-    this.audioBufferChunks = [];
-    this.currentBufferSize = 0;
+    this.pitchTracker.reset();
+    this.isModelSpeaking = false;
+    this.recorder?.endSegment();
     
     // Reset queue
     this.audioSendQueue = Promise.resolve();
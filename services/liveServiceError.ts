@@ -0,0 +1,127 @@
+export type LiveServiceErrorCode =
+  | 'MIC_DENIED'
+  | 'MIC_NOT_FOUND'
+  | 'AUDIO_UNSUPPORTED'
+  | 'AUTH'
+  | 'QUOTA'
+  | 'NETWORK'
+  | 'SERVER_INTERNAL'
+  | 'SESSION_EXPIRED'
+  | 'UNKNOWN';
+
+// What the learner can do about it; App renders one action per value
+export type LiveErrorRecovery = 'retry' | 'retryLater' | 'openMicSettings' | 'checkApiKey' | 'none';
+
+interface ErrorCodeInfo {
+  retryable: boolean; // Worth reconnecting automatically
+  recovery: LiveErrorRecovery;
+  message: string; // Default user-facing text
+}
+
+const ERROR_CODES: Record<LiveServiceErrorCode, ErrorCodeInfo> = {
+  MIC_DENIED: { retryable: false, recovery: 'openMicSettings', message: "Microphone permission denied. Allow microphone access in your browser's site settings, then try again." },
+  MIC_NOT_FOUND: { retryable: false, recovery: 'openMicSettings', message: "No usable microphone found. Connect one or pick another device in the mic settings." },
+  AUDIO_UNSUPPORTED: { retryable: false, recovery: 'none', message: "Audio capture is not supported in this browser." },
+  AUTH: { retryable: false, recovery: 'checkApiKey', message: "The API key is missing or was rejected." },
+  QUOTA: { retryable: false, recovery: 'retryLater', message: "The API quota is used up for now. Try again in a few minutes." },
+  NETWORK: { retryable: true, recovery: 'retry', message: "Could not reach the server. Check your connection." },
+  SERVER_INTERNAL: { retryable: true, recovery: 'retry', message: "The server ran into a problem." },
+  SESSION_EXPIRED: { retryable: true, recovery: 'retry', message: "The session ended on the server." },
+  UNKNOWN: { retryable: false, recovery: 'retry', message: "Something went wrong with the connection." },
+};
+
+export class LiveServiceError extends Error {
+  readonly code: LiveServiceErrorCode;
+  readonly retryable: boolean;
+  readonly recovery: LiveErrorRecovery;
+  readonly detail?: string; // Raw error text, for logs and bug reports
+
+  constructor(code: LiveServiceErrorCode, message?: string, detail?: string) {
+    const info = ERROR_CODES[code];
+    super(message || info.message);
+    this.name = 'LiveServiceError';
+    this.code = code;
+    this.retryable = info.retryable;
+    this.recovery = info.recovery;
+    this.detail = detail;
+  }
+
+  // Same code and detail, different wording (e.g. "Reconnecting..." while the cause is being retried)
+  withMessage(message: string): LiveServiceError {
+    return new LiveServiceError(this.code, message, this.detail);
+  }
+}
+
+function describe(raw: unknown): string {
+  if (raw instanceof Error) return raw.message;
+  if (typeof ErrorEvent !== 'undefined' && raw instanceof ErrorEvent) return raw.message || 'WebSocket/Network Error';
+  if (typeof CloseEvent !== 'undefined' && raw instanceof CloseEvent) return `Socket closed (${raw.code})${raw.reason ? `: ${raw.reason}` : ''}`;
+  if (typeof raw === 'string') return raw;
+  try {
+    return JSON.stringify(raw);
+  } catch {
+    return String(raw);
+  }
+}
+
+// HTTP statuses only count as a status or code field ("got status: 401", "\"code\": 401", "code 403"),
+// not as any number that happens to appear in the message
+const statusField = (statuses: string) => `(?:status|code|http)\\W{0,3}(?:${statuses})\\b`;
+
+// The SDK reports most failures as free text, so the wording (and HTTP/gRPC status names inside it) is all there is
+const MESSAGE_PATTERNS: [RegExp, LiveServiceErrorCode][] = [
+  [new RegExp(`api key|unauthenticated|permission[_ ]denied|${statusField('401|403')}`, 'i'), 'AUTH'],
+  [new RegExp(`quota|resource[_ ]exhausted|rate limit|${statusField('429')}`, 'i'), 'QUOTA'],
+  [/session.*(expired|not found)|deadline[_ ]exceeded|go ?away/i, 'SESSION_EXPIRED'],
+  [new RegExp(`internal error|unavailable|${statusField('500|503')}`, 'i'), 'SERVER_INTERNAL'],
+  [/network|failed to fetch|websocket|timed? ?out|offline/i, 'NETWORK'],
+];
+
+function classifyCloseCode(code: number): LiveServiceErrorCode | null {
+  if (code === 1005 || code === 1006) return 'NETWORK'; // No close frame: the connection just dropped
+  if (code === 1001) return 'SESSION_EXPIRED';
+  if (code === 1011 || code === 1012 || code === 1013 || code === 1014) return 'SERVER_INTERNAL';
+  return null;
+}
+
+/**
+ * Maps anything the Live session or the SDK throws (Error, ErrorEvent, CloseEvent, string) to a typed error.
+ * `fallback` is used when nothing in the error identifies it.
+ */
+export function classifyLiveError(raw: unknown, fallback: LiveServiceErrorCode = 'UNKNOWN'): LiveServiceError {
+  if (raw instanceof LiveServiceError) return raw;
+  const detail = describe(raw);
+
+  // The close reason is more specific than the code (a policy-violation close can mean a bad key or quota)
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(detail));
+  if (match) return new LiveServiceError(match[1], undefined, detail);
+
+  if (typeof CloseEvent !== 'undefined' && raw instanceof CloseEvent) {
+    const code = classifyCloseCode(raw.code);
+    if (code) return new LiveServiceError(code, undefined, detail);
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new LiveServiceError('NETWORK', undefined, detail);
+  }
+  return new LiveServiceError(fallback, undefined, detail);
+}
+
+// getUserMedia failures are DOMExceptions identified by name
+export function classifyMicrophoneError(raw: any, message?: string): LiveServiceError {
+  const detail = describe(raw);
+  switch (raw?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return new LiveServiceError('MIC_DENIED', message, detail);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new LiveServiceError('MIC_NOT_FOUND', message, detail);
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return new LiveServiceError('MIC_NOT_FOUND', message || "The microphone is in use by another app or could not be started.", detail);
+    default:
+      return new LiveServiceError('UNKNOWN', message || "Failed to access microphone.", detail);
+  }
+}
@@ -0,0 +1,67 @@
+import { GoogleGenAI, LiveConnectParameters, Session } from '@google/genai';
+import { FakeLiveTransport } from './fakeLiveTransport';
+import { LiveServiceError } from './liveServiceError';
+
+// The subset of the Gemini Live session the service relies on.
+export type LiveSession = Pick<Session, 'sendRealtimeInput' | 'sendToolResponse' | 'sendClientContent' | 'close'>;
+
+// A transport opens Live sessions. LiveApiService only talks to this interface, so the
+// real Gemini socket can be swapped for a scripted local fake during development.
+export interface LiveTransport {
+  readonly name: string;
+  // Returns an error if the transport cannot be used (e.g. missing API key)
+  getConfigurationError(): LiveServiceError | null;
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+export class GeminiLiveTransport implements LiveTransport {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+  private apiKey: string | undefined;
+
+  constructor(apiKey: string | undefined) {
+    this.apiKey = apiKey;
+    // Initialize with provided key or a placeholder to prevent immediate crash.
+    // The actual validation happens when we try to connect.
+    this.ai = new GoogleGenAI({ apiKey: this.apiKey || 'MISSING_KEY_PLACEHOLDER' });
+  }
+
+  getConfigurationError(): LiveServiceError | null {
+    if (!this.apiKey || this.apiKey === 'MISSING_KEY_PLACEHOLDER') {
+      return new LiveServiceError('AUTH', "API Key not found. Please add 'VITE_API_KEY=AIza...' to your .env file.");
+    }
+    return null;
+  }
+
+  connect(params: LiveConnectParameters): Promise<LiveSession> {
+    return this.ai.live.connect(params);
+  }
+}
+
+function readEnv(): Record<string, string | undefined> {
+  return (import.meta as any).env || {};
+}
+
+function readQueryParam(name: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+/**
+ * Picks the transport from `?transport=fake` (with optional `&script=<name>`) or
+ * `VITE_LIVE_TRANSPORT=fake` / `VITE_FAKE_SCRIPT=<name>`. Defaults to Gemini.
+ */
+export function createLiveTransport(): LiveTransport {
+  const env = readEnv();
+  const transportName = readQueryParam('transport') || env.VITE_LIVE_TRANSPORT || 'gemini';
+
+  if (transportName === 'fake') {
+    const scriptName = readQueryParam('script') || env.VITE_FAKE_SCRIPT || 'default';
+    return new FakeLiveTransport(scriptName);
+  }
+
+  // Support both Vite production env (import.meta.env) and standard process.env
+  // Also support various naming conventions (VITE_API_KEY, VITE_GEMINI_API_KEY, GEMINI_API_KEY)
+  const key = env.VITE_API_KEY || env.VITE_GEMINI_API_KEY || env.GEMINI_API_KEY || process.env.API_KEY || process.env.GEMINI_API_KEY;
+  return new GeminiLiveTransport(key);
+}
@@ -0,0 +1,58 @@
+const DB_NAME = 'mandarin-talk';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const REVIEW_CARDS_STORE = 'reviewCards';
+export const RECORDINGS_STORE = 'recordings';
+export const IMPORTED_LESSONS_STORE = 'importedLessons';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each store is created only if missing, so upgrading from any older version is safe
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(REVIEW_CARDS_STORE)) {
+        const store = db.createObjectStore(REVIEW_CARDS_STORE, { keyPath: 'id' });
+        store.createIndex('dueAt', 'dueAt');
+      }
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' });
+      }
+      if (!db.objectStoreNames.contains(IMPORTED_LESSONS_STORE)) {
+        db.createObjectStore(IMPORTED_LESSONS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function runRequest<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
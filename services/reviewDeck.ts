@@ -0,0 +1,16 @@
+import { ReviewCard } from '../types';
+import { runRequest, REVIEW_CARDS_STORE } from './localDatabase';
+
+export async function saveCard(card: ReviewCard): Promise<void> {
+  await runRequest(REVIEW_CARDS_STORE, 'readwrite', store => store.put(card));
+}
+
+// Oldest due date first, so the review queue is already in order
+export async function listCards(): Promise<ReviewCard[]> {
+  const cards = await runRequest(REVIEW_CARDS_STORE, 'readonly', store => store.getAll() as IDBRequest<ReviewCard[]>);
+  return cards.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export async function deleteCard(id: string): Promise<void> {
+  await runRequest(REVIEW_CARDS_STORE, 'readwrite', store => store.delete(id));
+}
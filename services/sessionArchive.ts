@@ -0,0 +1,21 @@
+import { ArchivedSession } from '../types';
+import { runRequest, SESSIONS_STORE } from './localDatabase';
+
+// Insert or overwrite a session. Called repeatedly while a call is live so nothing is lost on a crash.
+export async function saveSession(session: ArchivedSession): Promise<void> {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(session));
+}
+
+export function getSession(id: string): Promise<ArchivedSession | undefined> {
+  return runRequest(SESSIONS_STORE, 'readonly', store => store.get(id) as IDBRequest<ArchivedSession | undefined>);
+}
+
+// Newest first
+export async function listSessions(): Promise<ArchivedSession[]> {
+  const sessions = await runRequest(SESSIONS_STORE, 'readonly', store => store.getAll() as IDBRequest<ArchivedSession[]>);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,214 @@
+import { AudioSegment, ConversationTurn, SessionRecording } from '../types';
+import { floatToInt16, int16ToFloat, encodeWav, createZip } from '../utils/wav';
+import { TimeStretcher } from '../utils/timeStretch';
+import { runRequest, RECORDINGS_STORE } from './localDatabase';
+
+const EXPORT_SAMPLE_RATE = 24000;
+// A turn's audio may start slightly after its subtitle/transcript arrives
+const TURN_MATCH_TOLERANCE_MS = 1500;
+
+interface OpenSegment {
+  id: string;
+  role: 'user' | 'ai';
+  startedAt: number;
+  sampleRate: number;
+  chunks: Int16Array[];
+}
+
+/**
+ * Records both sides of a call as a list of speaker segments.
+ * LiveApiService feeds it the same mic frames it streams and the decoded model buffers it schedules;
+ * a new segment starts whenever the speaker changes.
+ */
+export class SessionRecorder {
+  private segments: AudioSegment[] = [];
+  private openSegment: OpenSegment | null = null;
+
+  appendUserAudio(samples: Float32Array, sampleRate: number) {
+    const durationMs = samples.length / sampleRate * 1000;
+    this.append('user', samples, sampleRate, Date.now() - durationMs);
+  }
+
+  // `startAt` is the wall-clock time the buffer is scheduled to play, not when it arrived
+  appendModelAudio(samples: Float32Array, sampleRate: number, startAt: number) {
+    this.append('ai', samples, sampleRate, startAt);
+  }
+
+  // Ends the current segment, e.g. on turnComplete or an interruption
+  endSegment() {
+    const segment = this.openSegment && joinSegment(this.openSegment);
+    if (segment) this.segments.push(segment);
+    this.openSegment = null;
+  }
+
+  hasAudio(): boolean {
+    return this.segments.length > 0 || !!this.openSegment;
+  }
+
+  toRecording(sessionId: string): SessionRecording {
+    this.endSegment();
+    return { sessionId, segments: [...this.segments].sort((a, b) => a.startedAt - b.startedAt) };
+  }
+
+  // The recording so far, for replay and export mid-call. The open segment is copied, not closed,
+  // so the speaker's audio still to come stays in the same segment.
+  snapshot(sessionId: string): SessionRecording {
+    const open = this.openSegment && joinSegment(this.openSegment);
+    const segments = open ? [...this.segments, open] : [...this.segments];
+    return { sessionId, segments: segments.sort((a, b) => a.startedAt - b.startedAt) };
+  }
+
+  private append(role: 'user' | 'ai', samples: Float32Array, sampleRate: number, startedAt: number) {
+    if (samples.length === 0) return;
+    if (this.openSegment && (this.openSegment.role !== role || this.openSegment.sampleRate !== sampleRate)) {
+      this.endSegment();
+    }
+    if (!this.openSegment) {
+      this.openSegment = { id: startedAt.toString() + Math.random(), role, startedAt, sampleRate, chunks: [] };
+    }
+    this.openSegment.chunks.push(floatToInt16(samples));
+  }
+}
+
+function joinSegment({ chunks, ...rest }: OpenSegment): AudioSegment | null {
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  if (length === 0) return null;
+  const samples = new Int16Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { ...rest, samples };
+}
+
+/**
+ * Finds the audio for a turn: the latest segment of the same speaker that started before the turn
+ * was logged. AI subtitles arrive as the audio starts; user transcripts arrive after they finish speaking.
+ */
+export function findSegmentForTurn(recording: SessionRecording, turn: ConversationTurn): AudioSegment | null {
+  let match: AudioSegment | null = null;
+  for (const segment of recording.segments) {
+    if (segment.role !== turn.role) continue;
+    if (segment.startedAt > turn.timestamp + TURN_MATCH_TOLERANCE_MS) break;
+    match = segment;
+  }
+  return match;
+}
+
+function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const result = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < result.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const t = position - index;
+    result[i] = samples[index] * (1 - t) + samples[next] * t;
+  }
+  return result;
+}
+
+// Mixes every segment onto one timeline at 24 kHz, positioned by wall-clock start time.
+export function mixdownRecording(recording: SessionRecording): Int16Array {
+  if (recording.segments.length === 0) return new Int16Array(0);
+  const origin = Math.min(...recording.segments.map(s => s.startedAt));
+
+  const placed = recording.segments.map(segment => ({
+    offset: Math.max(0, Math.round((segment.startedAt - origin) / 1000 * EXPORT_SAMPLE_RATE)),
+    samples: resample(int16ToFloat(segment.samples), segment.sampleRate, EXPORT_SAMPLE_RATE),
+  }));
+  const length = Math.max(...placed.map(p => p.offset + p.samples.length));
+
+  const mix = new Float32Array(length);
+  for (const { offset, samples } of placed) {
+    for (let i = 0; i < samples.length; i++) mix[offset + i] += samples[i];
+  }
+  return floatToInt16(mix);
+}
+
+export function exportRecordingAsWav(recording: SessionRecording): Uint8Array {
+  return encodeWav(mixdownRecording(recording), EXPORT_SAMPLE_RATE);
+}
+
+// One WAV per turn, numbered in conversation order
+export function exportTurnClipsAsZip(recording: SessionRecording, turns: ConversationTurn[]): Uint8Array {
+  const files = turns.flatMap((turn, index) => {
+    const segment = findSegmentForTurn(recording, turn);
+    if (!segment) return [];
+    const label = turn.text.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 24);
+    const name = `${String(index + 1).padStart(3, '0')}_${turn.role}_${label}.wav`;
+    return [{ name, data: encodeWav(segment.samples, segment.sampleRate) }];
+  });
+  return createZip(files);
+}
+
+let playbackContext: AudioContext | null = null;
+let activePlayback: AudioBufferSourceNode | null = null;
+
+// Plays a segment locally; starting a new clip stops the previous one. Below rate 1 it is slowed without lowering the pitch.
+export function playSegment(segment: AudioSegment, rate = 1): Promise<void> {
+  return playSamples(int16ToFloat(segment.samples), segment.sampleRate, rate);
+}
+
+// Replays decoded model audio (one turn's buffers, in order) the same way
+export function playAudioBuffers(buffers: AudioBuffer[], rate = 1): Promise<void> {
+  const length = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const buffer of buffers) {
+    samples.set(buffer.getChannelData(0), offset);
+    offset += buffer.length;
+  }
+  return playSamples(samples, buffers[0]?.sampleRate || EXPORT_SAMPLE_RATE, rate);
+}
+
+async function playSamples(samples: Float32Array, sampleRate: number, rate: number): Promise<void> {
+  if (!playbackContext || playbackContext.state === 'closed') {
+    playbackContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  await playbackContext.resume();
+
+  if (activePlayback) {
+    try { activePlayback.stop(); } catch (e) {}
+  }
+
+  if (rate !== 1) {
+    const stretcher = new TimeStretcher(sampleRate);
+    stretcher.rate = rate;
+    const head = stretcher.push(samples);
+    const tail = stretcher.flush();
+    samples = new Float32Array(head.length + tail.length);
+    samples.set(head);
+    samples.set(tail, head.length);
+  }
+  if (samples.length === 0) return;
+
+  const buffer = playbackContext.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = playbackContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(playbackContext.destination);
+  activePlayback = source;
+
+  return new Promise(resolve => {
+    source.onended = () => {
+      if (activePlayback === source) activePlayback = null;
+      resolve();
+    };
+    source.start();
+  });
+}
+
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  await runRequest(RECORDINGS_STORE, 'readwrite', store => store.put(recording));
+}
+
+export function getRecording(sessionId: string): Promise<SessionRecording | undefined> {
+  return runRequest(RECORDINGS_STORE, 'readonly', store => store.get(sessionId) as IDBRequest<SessionRecording | undefined>);
+}
+
+export async function deleteRecording(sessionId: string): Promise<void> {
+  await runRequest(RECORDINGS_STORE, 'readwrite', store => store.delete(sessionId));
+}
@@ -11,6 +11,35 @@ export interface PronunciationFeedback {
   feedback: string;
 }
 
+export interface PronunciationFeedbackEvent extends PronunciationFeedback {
+  id: string;
+  timestamp: number;
+}
+
+// Reported by the model through report_grammar_error
+export interface GrammarError {
+  learnerSentence: string;
+  correctedSentence: string;
+  grammarPoint: string; // Short name of the rule, e.g. "了 for completed actions"; mistakes are grouped by it
+  explanation: string;
+}
+
+export interface GrammarErrorEvent extends GrammarError {
+  id: string;
+  timestamp: number;
+}
+
+export interface PitchPoint {
+  time: number; // Seconds from the start of the utterance
+  frequency: number | null; // Hz, null when unvoiced
+}
+
+export interface PitchContour {
+  points: PitchPoint[];
+  duration: number; // Seconds
+  capturedAt: number;
+}
+
 export interface ConversationTurn {
   id: string;
   role: 'user' | 'ai';
@@ -18,15 +47,168 @@ export interface ConversationTurn {
   pinyin?: string;
   translation?: string;
   timestamp: number;
+  replayId?: string; // AI turns: key of the model audio LiveApiService keeps for replay during the live call
+}
+
+export type LessonLevel = 'Beginner' | 'Intermediate' | 'Advanced';
+
+// How much of each AI line is shown before the learner asks for it
+export type SubtitleRevealMode = 'all' | 'hanziOnly' | 'hidden' | 'afterAudio';
+
+export type SubtitleLayer = 'hanzi' | 'pinyin' | 'english';
+
+export interface LessonObjective {
+  id: string; // Reported back by the model through mark_objective_complete
+  description: string; // Phrased as what the learner should do
 }
 
 export interface Lesson {
   id: string;
   title: string;
   description: string;
-  level: 'Beginner' | 'Intermediate' | 'Advanced';
+  level: LessonLevel;
   topic: string;
   scenario: string; // The specific context instruction for the AI
+  objectives?: LessonObjective[]; // In order; tracked live when present
+  source?: 'builtin' | 'imported';
+  recommendedPersonaId?: string; // Selected automatically when the lesson is picked
+}
+
+export interface LessonVocabularyItem {
+  hanzi: string;
+  pinyin: string;
+  english?: string;
+}
+
+// Declarative lesson file (JSON) written by teachers. Compiled into a Lesson's scenario instruction.
+export interface LessonFile {
+  id: string;
+  title: string;
+  description?: string;
+  level: LessonLevel;
+  topic: string;
+  aiRole: string;
+  learnerRole: string;
+  objectives: string[]; // In order
+  vocabulary: LessonVocabularyItem[];
+  openingLine: LessonVocabularyItem; // What the AI says first
+  notes?: string; // Extra guidance for the AI (tone, corrections, difficulty)
+  persona?: string; // Id of the recommended tutor persona (see data/personas.ts)
+}
+
+export type Formality = 'casual' | 'neutral' | 'formal';
+
+export type Hairstyle = 'bangsBun' | 'short' | 'long' | 'buzz';
+
+export interface AvatarStyle {
+  hairColor: string; // CSS colour
+  skinTone: string;
+  hairstyle: Hairstyle;
+}
+
+export type AvatarExpression = 'neutral' | 'smile' | 'surprised' | 'thinking' | 'encouraging' | 'confused';
+
+export interface TutorPersona {
+  id: string;
+  name: string;
+  chineseName: string;
+  description: string; // Shown in the picker
+  voiceName: string; // Gemini prebuilt voice
+  personality: string; // Appended to the base system instruction
+  formality: Formality;
+  avatar: AvatarStyle;
+}
+
+export interface ArchivedSession {
+  id: string;
+  lessonId: string | null; // null for Free Talk
+  lessonTitle?: string;
+  completedObjectives?: string[]; // Objective ids the model marked complete
+  speakingRate: number;
+  startedAt: number;
+  endedAt: number;
+  turns: ConversationTurn[];
+  feedback: PronunciationFeedbackEvent[];
+  grammarErrors?: GrammarErrorEvent[]; // Missing in sessions archived before the mistake log existed
+}
+
+export interface AudioSegment {
+  id: string;
+  role: 'user' | 'ai';
+  startedAt: number; // Wall-clock ms, comparable with ConversationTurn.timestamp
+  sampleRate: number; // 16000 for the mic, 24000 for the model
+  samples: Int16Array;
+}
+
+export interface SessionRecording {
+  sessionId: string;
+  segments: AudioSegment[];
+}
+
+// One CC-CEDICT reading of a word
+export interface DictionaryEntry {
+  traditional: string;
+  simplified: string;
+  pinyin: string; // With tone marks, e.g. "sǎo mǎ"
+  glosses: string[];
+}
+
+export interface ReviewCard extends SubtitleData {
+  id: string;
+  kind: 'word' | 'sentence';
+  createdAt: number;
+  // SM-2 scheduling state
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number;
+  lastReviewedAt?: number;
+}
+
+// SM-2 answer quality: 0 (blackout) to 5 (perfect recall)
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+// How the microphone feeds the Live session. Push-to-talk uses explicit activity start/end signals.
+export type MicMode = 'handsFree' | 'pushToTalk' | 'muted';
+
+// Client-side voice activity detection applied before audio is streamed (hands-free mode)
+export interface VadSettings {
+  enabled: boolean;
+  noiseGateDb: number; // Frames quieter than this (dBFS) count as silence
+  hangoverMs: number; // How long streaming continues after speech stops
+}
+
+export interface MicSettings {
+  deviceId: string | null; // null = system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  inputGain: number; // Linear gain applied before capture
+}
+
+export interface PlaybackSettings {
+  rate: number; // Local time stretch of the tutor's voice, 0.5 to 1.5
+}
+
+export type ChineseScript = 'simplified' | 'traditional';
+
+export interface DisplaySettings {
+  script: ChineseScript; // Hanzi are converted locally; the tutor is also asked to write this script
+}
+
+export interface InputLevel {
+  db: number; // Mic level in dBFS
+  isSpeech: boolean; // Whether the voice activity gate is open
+}
+
+// One animation frame of the tutor's voice, for the avatar's lip sync
+export interface OutputAudioFrame {
+  volume: number; // 0 to 1
+  bands: number[]; // Linear energy per LIP_SYNC_BANDS_HZ range
+  replayId: string | null; // Model turn being played, as passed to onSubtitle
+  turnElapsed: number; // Seconds of that turn played so far
+  turnDuration: number; // Seconds of it scheduled so far
+  isTurnComplete: boolean; // All of the turn's audio has arrived, so turnDuration is final
 }
 
 export enum ConnectionState {
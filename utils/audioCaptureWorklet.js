@@ -0,0 +1,238 @@
+// AudioWorklet processor for microphone capture. Runs on the audio rendering thread, so the React/three.js
+// render loop can no longer starve it. Loaded by LiveApiService via audioWorklet.addModule(); kept as plain
+// JS because worklet modules are served as-is and cannot import the app's TypeScript helpers.
+//
+// Pipeline per render quantum (128 frames): downsample to the target rate -> voice activity detection ->
+// ring buffer -> once `chunkSize` samples are ready, pack them as Int16 and transfer the buffer to the main thread.
+//
+// Voice activity detection runs on 20 ms frames: a frame counts as speech when it is louder than the noise gate
+// and its spectrum is not flat (speech is harmonic; fans, hiss and key clicks are broadband). The gate opens after
+// a short run of speech frames, stays open for `hangoverMs` after the last one, and keeps a pre-roll of audio so
+// the start of a word is not clipped. While the gate is closed nothing is posted.
+//
+// Messages in:  { type: 'capture', enabled: boolean }  start/stop capturing (stopping discards buffered audio)
+//               { type: 'reset' }                      discard buffered audio
+//               { type: 'flush' }                      post whatever is buffered now, even if short or empty
+//               { type: 'vad', enabled, noiseGateDb, hangoverMs }
+// Messages out: { type: 'chunk', samples: Int16Array, flushed: boolean, endOfSpeech: boolean }
+//               { type: 'level', db: number, speech: boolean }  every LEVEL_INTERVAL_FRAMES frames
+
+const RENDER_QUANTUM = 128; // Frames per process() call; downsampling only makes a block's output shorter
+
+const FRAME_MS = 20;
+const FFT_SIZE = 512;
+const SPEECH_BAND_HZ = [100, 4000];
+const FLATNESS_THRESHOLD = 0.45; // White noise sits around 0.55, voiced speech well below 0.3
+const ONSET_FRAMES = 2; // Consecutive speech frames needed to open the gate (ignores single clicks)
+const PRE_ROLL_MS = 300;
+const LEVEL_INTERVAL_FRAMES = 2;
+const SILENCE_DB = -100;
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { chunkSize = 4096, targetSampleRate = 16000, vad = {} } = options.processorOptions || {};
+    this.chunkSize = chunkSize;
+    this.targetSampleRate = targetSampleRate;
+    this.ratio = sampleRate / targetSampleRate;
+
+    // Ring buffer, filled and drained within process(): full chunks are posted as soon as they are ready, so it
+    // never holds more than the VAD pre-roll or a chunk in progress, plus one render quantum. It does not absorb
+    // main-thread stalls; posted chunks queue on the port instead. Indices only ever grow; the slot is index % capacity.
+    this.preRollSamples = Math.round(targetSampleRate * PRE_ROLL_MS / 1000);
+    this.ring = new Float32Array(Math.max(chunkSize, this.preRollSamples) + RENDER_QUANTUM);
+    this.writeIndex = 0;
+    this.readIndex = 0;
+
+    // Streaming linear resampler state: the next output position, relative to the current block,
+    // where -1 refers to the last sample of the previous block
+    this.position = 0;
+    this.previousSample = 0;
+
+    // Voice activity detection
+    this.frame = new Float32Array(Math.round(targetSampleRate * FRAME_MS / 1000));
+    this.frameFill = 0;
+    this.frameCount = 0;
+    this.window = new Float32Array(this.frame.length).map((_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (this.frame.length - 1)));
+    this.re = new Float32Array(FFT_SIZE);
+    this.im = new Float32Array(FFT_SIZE);
+    this.bandStart = Math.max(1, Math.floor(SPEECH_BAND_HZ[0] * FFT_SIZE / targetSampleRate));
+    this.bandEnd = Math.min(FFT_SIZE / 2, Math.ceil(SPEECH_BAND_HZ[1] * FFT_SIZE / targetSampleRate));
+    this.configureVad(vad);
+    this.resetGate();
+
+    this.capturing = true;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  configureVad({ enabled = true, noiseGateDb = -50, hangoverMs = 700 }) {
+    this.vadEnabled = enabled;
+    this.noiseGateDb = noiseGateDb;
+    this.hangoverFrames = Math.max(1, Math.round(hangoverMs / FRAME_MS));
+  }
+
+  handleMessage(message) {
+    if (message.type === 'capture') {
+      this.capturing = message.enabled;
+      this.reset();
+    } else if (message.type === 'reset') {
+      this.reset();
+    } else if (message.type === 'flush') {
+      this.postChunk(this.writeIndex - this.readIndex, { flushed: true });
+    } else if (message.type === 'vad') {
+      this.configureVad(message);
+      this.reset();
+    }
+  }
+
+  reset() {
+    this.readIndex = this.writeIndex;
+    this.position = 0;
+    this.previousSample = 0;
+    this.resetGate();
+  }
+
+  resetGate() {
+    this.gateOpen = !this.vadEnabled;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+  }
+
+  write(sample) {
+    if (this.writeIndex - this.readIndex >= this.ring.length) {
+      this.readIndex += 1; // Full (cannot happen with the capacity above): drop the oldest sample
+    }
+    this.ring[this.writeIndex % this.ring.length] = sample;
+    this.writeIndex += 1;
+  }
+
+  postChunk(length, { flushed = false, endOfSpeech = false } = {}) {
+    const samples = new Int16Array(length);
+    for (let i = 0; i < length; i++) {
+      const value = this.ring[(this.readIndex + i) % this.ring.length];
+      const clamped = Number.isFinite(value) ? Math.max(-1, Math.min(1, value)) : 0;
+      samples[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF;
+    }
+    this.readIndex += length;
+    this.port.postMessage({ type: 'chunk', samples, flushed, endOfSpeech }, [samples.buffer]);
+  }
+
+  // In-place iterative radix-2 FFT of this.re/this.im
+  fft() {
+    const { re, im } = this;
+    const n = FFT_SIZE;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = -2 * Math.PI / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const wr = Math.cos(angle * k);
+          const wi = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + size / 2;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+
+  // Geometric over arithmetic mean of the power spectrum in the speech band: ~0 for a pure tone, ~0.55 for white noise
+  spectralFlatness() {
+    this.re.fill(0);
+    this.im.fill(0);
+    for (let i = 0; i < this.frame.length; i++) this.re[i] = this.frame[i] * this.window[i];
+    this.fft();
+
+    let logSum = 0;
+    let sum = 0;
+    for (let k = this.bandStart; k < this.bandEnd; k++) {
+      const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+      logSum += Math.log(power);
+      sum += power;
+    }
+    const bins = this.bandEnd - this.bandStart;
+    return Math.exp(logSum / bins) / (sum / bins);
+  }
+
+  analyseFrame() {
+    let energy = 0;
+    for (let i = 0; i < this.frame.length; i++) energy += this.frame[i] * this.frame[i];
+    const rms = Math.sqrt(energy / this.frame.length);
+    const db = rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+    const isSpeech = db > this.noiseGateDb && this.spectralFlatness() < FLATNESS_THRESHOLD;
+
+    if (this.vadEnabled) {
+      if (isSpeech) {
+        this.speechRun += 1;
+        this.silenceRun = 0;
+        if (!this.gateOpen && this.speechRun >= ONSET_FRAMES) this.gateOpen = true;
+      } else {
+        this.speechRun = 0;
+        this.silenceRun += 1;
+        if (this.gateOpen && this.silenceRun >= this.hangoverFrames) {
+          this.gateOpen = false;
+          // Send the tail of the utterance now instead of waiting for a full chunk
+          if (this.capturing) this.postChunk(this.writeIndex - this.readIndex, { endOfSpeech: true });
+        }
+      }
+    }
+
+    this.frameCount += 1;
+    if (this.frameCount % LEVEL_INTERVAL_FRAMES === 0) {
+      this.port.postMessage({ type: 'level', db, speech: this.vadEnabled ? this.gateOpen : isSpeech });
+    }
+  }
+
+  pushSample(sample) {
+    if (this.capturing) this.write(sample);
+    this.frame[this.frameFill++] = sample;
+    if (this.frameFill === this.frame.length) {
+      this.frameFill = 0;
+      this.analyseFrame();
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0) return true;
+
+    const last = channel.length - 1;
+    let position = this.position;
+    while (position <= last) {
+      const index = Math.floor(position);
+      const t = position - index;
+      const a = index < 0 ? this.previousSample : channel[index];
+      const b = index + 1 <= last ? channel[index + 1] : a;
+      this.pushSample(a + (b - a) * t);
+      position += this.ratio;
+    }
+    this.position = position - channel.length;
+    this.previousSample = channel[last];
+
+    if (!this.capturing) return true;
+    if (this.gateOpen) {
+      while (this.writeIndex - this.readIndex >= this.chunkSize) {
+        this.postChunk(this.chunkSize);
+      }
+    } else {
+      // Silence: keep only the pre-roll, ready to prepend when speech starts
+      this.readIndex = Math.max(this.readIndex, this.writeIndex - this.preRollSamples);
+    }
+    return true; // Keep the processor alive while the node is connected
+  }
+}
+
+registerProcessor('audio-capture-processor', AudioCaptureProcessor);
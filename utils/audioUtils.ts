@@ -44,65 +44,11 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function downsampleTo16k(buffer: Float32Array, fromSampleRate: number): Float32Array {
-  if (buffer.length === 0) return new Float32Array(0);
-  if (fromSampleRate === 16000) return buffer;
-  
-  const ratio = fromSampleRate / 16000;
-  const newLength = Math.ceil(buffer.length / ratio);
-  const result = new Float32Array(newLength);
-  
-  for (let i = 0; i < newLength; i++) {
-    const offset = i * ratio;
-    const index = Math.floor(offset);
-    const nextIndex = Math.min(Math.ceil(offset), buffer.length - 1);
-    const t = offset - index;
-    
-    // Linear interpolation
-    const val = buffer[index] * (1 - t) + buffer[nextIndex] * t;
-    // Check for NaN or Infinity just in case
-    result[i] = Number.isFinite(val) ? val : 0;
-  }
-  return result;
-}
-
-export function concatenateFloat32Buffers(buffers: Float32Array[]): Float32Array {
-    let totalLength = 0;
-    for (const buffer of buffers) {
-        totalLength += buffer.length;
-    }
-    const result = new Float32Array(totalLength);
-    let offset = 0;
-    for (const buffer of buffers) {
-        result.set(buffer, offset);
-        offset += buffer.length;
-    }
-    return result;
-}
-
-export function createPcmBlob(data: Float32Array): Blob {
-  // Create a buffer for the Int16 data
-  const buffer = new ArrayBuffer(data.length * 2);
-  const view = new DataView(buffer);
-  
-  for (let i = 0; i < data.length; i++) {
-    let val = data[i];
-    // Safety check for bad audio data
-    if (!Number.isFinite(val)) val = 0;
-    
-    // Clamp values to [-1, 1]
-    const s = Math.max(-1, Math.min(1, val));
-    
-    // Convert to 16-bit integer
-    // s < 0 ? s * 0x8000 : s * 0x7FFF
-    const int16 = s < 0 ? s * 0x8000 : s * 0x7FFF;
-    
-    // Explicitly write Little Endian (true) to ensure API compatibility
-    view.setInt16(i * 2, int16, true);
-  }
-
+// Wraps 16 kHz Int16 samples (already packed by the capture worklet) for sendRealtimeInput.
+// The bytes are sent as-is: every platform browsers run on is little-endian, which the API expects.
+export function createPcmBlob(data: Int16Array): Blob {
   return {
-    data: bytesToBase64(new Uint8Array(buffer)),
+    data: bytesToBase64(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import { DictionaryEntry } from '../types';
+import { CEDICT_ENTRIES, CHARACTER_RADICALS } from '../data/cedict';
+import { isHanzi, numberedToDiacritic } from './pinyin';
+
+const CEDICT_LINE = /^(\S+) (\S+) \[([^\]]+)\] \/(.+)\/$/;
+
+interface Dictionary {
+  entries: Map<string, DictionaryEntry[]>; // Keyed by both the simplified and the traditional form
+  radicals: Map<string, string>;
+  maxWordLength: number;
+}
+
+let dictionary: Dictionary | null = null;
+
+// Parsed on first use so the bundled text costs nothing until a word is looked up
+function getDictionary(): Dictionary {
+  if (dictionary) return dictionary;
+  const entries = new Map<string, DictionaryEntry[]>();
+  let maxWordLength = 1;
+
+  for (const line of CEDICT_ENTRIES.split('\n')) {
+    const match = CEDICT_LINE.exec(line.trim());
+    if (!match) continue;
+    const [, traditional, simplified, pinyin, glosses] = match;
+    const entry: DictionaryEntry = { traditional, simplified, pinyin: numberedToDiacritic(pinyin), glosses: glosses.split('/') };
+    for (const form of new Set([simplified, traditional])) {
+      entries.set(form, [...(entries.get(form) || []), entry]);
+      maxWordLength = Math.max(maxWordLength, Array.from(form).length);
+    }
+  }
+
+  const radicals = new Map<string, string>();
+  for (const pair of CHARACTER_RADICALS.split(/\s+/)) {
+    const [char, radical] = Array.from(pair);
+    if (char && radical) radicals.set(char, radical);
+  }
+
+  dictionary = { entries, radicals, maxWordLength };
+  return dictionary;
+}
+
+export function lookupWord(word: string): DictionaryEntry[] {
+  return getDictionary().entries.get(word) || [];
+}
+
+export function getRadical(char: string): string | undefined {
+  return getDictionary().radicals.get(char);
+}
+
+export interface WordSegment {
+  text: string;
+  start: number; // Character index (code points) into the segmented text
+  isWord: boolean; // Hanzi, whether or not the dictionary knows it; false for punctuation, spaces and Latin text
+}
+
+/**
+ * Forward maximum matching: from each position, takes the longest dictionary word that starts there.
+ * Hanzi the dictionary does not know become single-character words; other runs are kept whole.
+ */
+export function segmentWords(text: string): WordSegment[] {
+  const { entries, maxWordLength } = getDictionary();
+  const chars = Array.from(text);
+  const segments: WordSegment[] = [];
+  let index = 0;
+
+  while (index < chars.length) {
+    if (!isHanzi(chars[index])) {
+      const start = index;
+      while (index < chars.length && !isHanzi(chars[index])) index++;
+      segments.push({ text: chars.slice(start, index).join(''), start, isWord: false });
+      continue;
+    }
+    let length = Math.min(maxWordLength, chars.length - index);
+    while (length > 1 && !entries.has(chars.slice(index, index + length).join(''))) length--;
+    segments.push({ text: chars.slice(index, index + length).join(''), start: index, isWord: true });
+    index += length;
+  }
+  return segments;
+}
+
+export interface CharacterBreakdown {
+  char: string;
+  entries: DictionaryEntry[];
+  radical?: string;
+}
+
+export function getCharacterBreakdown(word: string): CharacterBreakdown[] {
+  return Array.from(word).map(char => ({ char, entries: lookupWord(char), radical: getRadical(char) }));
+}
@@ -0,0 +1,37 @@
+import { ArchivedSession, GrammarErrorEvent } from '../types';
+import { convertScript } from './scriptConversion';
+
+export interface LoggedGrammarError extends GrammarErrorEvent {
+  sessionId: string;
+  sessionStartedAt: number;
+}
+
+export interface GrammarPointGroup {
+  key: string; // Normalised grammar point; stable while the spelling below changes
+  grammarPoint: string; // As the most recent report spelled it
+  mistakes: LoggedGrammarError[]; // Newest first
+  lastSeenAt: number;
+}
+
+// The model names grammar points freely, and in whichever script the session used,
+// so "Measure word 个", "measure word 个 " and "Measure word 個" are the same point
+const groupKey = (grammarPoint: string) => convertScript(grammarPoint, 'simplified').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Every grammar report across the sessions, grouped by grammar point. The most frequent points come first. */
+export function groupMistakesByPoint(sessions: ArchivedSession[]): GrammarPointGroup[] {
+  const groups = new Map<string, GrammarPointGroup>();
+  for (const session of sessions) {
+    for (const report of session.grammarErrors || []) {
+      const key = groupKey(report.grammarPoint);
+      const group = groups.get(key) || { key, grammarPoint: report.grammarPoint, mistakes: [], lastSeenAt: 0 };
+      group.mistakes.push({ ...report, sessionId: session.id, sessionStartedAt: session.startedAt });
+      if (report.timestamp > group.lastSeenAt) {
+        group.lastSeenAt = report.timestamp;
+        group.grammarPoint = report.grammarPoint;
+      }
+      groups.set(key, group);
+    }
+  }
+  for (const group of groups.values()) group.mistakes.sort((a, b) => b.timestamp - a.timestamp);
+  return Array.from(groups.values()).sort((a, b) => b.mistakes.length - a.mistakes.length || b.lastSeenAt - a.lastSeenAt);
+}
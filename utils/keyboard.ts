@@ -0,0 +1,3 @@
+/** True for inputs and editable elements, where key presses should type rather than trigger shortcuts. */
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,41 @@
+import { Lesson, LessonFile } from '../types';
+
+const formatPhrase = ({ hanzi, pinyin, english }: { hanzi: string; pinyin: string; english?: string }) =>
+  english ? `${hanzi} (${pinyin}, "${english}")` : `${hanzi} (${pinyin})`;
+
+/**
+ * Builds the roleplay instruction from a lesson file, in the same shape as the
+ * hand-written scenarios in data/lessons.ts so the model sees a familiar prompt.
+ */
+export function compileLessonInstruction(file: LessonFile): string {
+  const lines = [
+    'ROLEPLAY SCENARIO:',
+    `You are ${file.aiRole}. The user is ${file.learnerRole}.`,
+    `Topic: ${file.topic}. The user's level is ${file.level}; keep your language appropriate for that level.`,
+    `Open the conversation by saying exactly: ${formatPhrase(file.openingLine)}`,
+    'Guide the user through these objectives in order, moving to the next one only when the current one is done:',
+    ...file.objectives.map((objective, index) => `${index + 1}. ${objective}`),
+  ];
+
+  if (file.vocabulary.length > 0) {
+    lines.push(`Target vocabulary (encourage the user to use these): ${file.vocabulary.map(formatPhrase).join(', ')}.`);
+  }
+  if (file.notes) lines.push(file.notes);
+  lines.push('Correct them gently if they make mistakes. Stay in character.');
+
+  return lines.join('\n');
+}
+
+export function compileLesson(file: LessonFile): Lesson {
+  return {
+    id: file.id,
+    title: file.title,
+    description: file.description || `${file.learnerRole} talking with ${file.aiRole}.`,
+    level: file.level,
+    topic: file.topic,
+    scenario: compileLessonInstruction(file),
+    objectives: file.objectives.map((description, index) => ({ id: `objective-${index + 1}`, description })),
+    source: 'imported',
+    ...(file.persona ? { recommendedPersonaId: file.persona } : {}),
+  };
+}
@@ -0,0 +1,152 @@
+import { LessonFile, LessonLevel, LessonVocabularyItem } from '../types';
+import { validatePinyin } from './pinyin';
+import { TUTOR_PERSONAS } from '../data/personas';
+
+const LEVELS: LessonLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const LESSON_FIELDS = ['id', 'title', 'description', 'level', 'topic', 'aiRole', 'learnerRole', 'objectives', 'vocabulary', 'openingLine', 'notes', 'persona'];
+const PHRASE_FIELDS = ['hanzi', 'pinyin', 'english'];
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export interface LessonValidationResult {
+  lesson: LessonFile | null; // null when there are errors
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+};
+
+/**
+ * Collects every problem in one pass so a teacher can fix the whole file at once.
+ * Errors are prefixed with the field path, e.g. `vocabulary[2].pinyin: "xx" is not a valid syllable.`
+ */
+class Checker {
+  errors: string[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  unknownFields(path: string, value: Record<string, unknown>, allowed: string[]) {
+    Object.keys(value)
+      .filter(key => !allowed.includes(key))
+      .forEach(key => this.fail(path ? `${path}.${key}` : key, `unknown field (expected one of ${allowed.join(', ')}).`));
+  }
+
+  text(path: string, value: unknown, required = true): string | undefined {
+    if (value === undefined) {
+      if (required) this.fail(path, 'is required.');
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.fail(path, `must be text, got ${describe(value)}.`);
+      return undefined;
+    }
+    if (required && !value.trim()) {
+      this.fail(path, 'must not be empty.');
+      return undefined;
+    }
+    return value.trim();
+  }
+
+  phrase(path: string, value: unknown): LessonVocabularyItem | undefined {
+    if (!isObject(value)) {
+      this.fail(path, `must be an object with hanzi, pinyin and english, got ${value === undefined ? 'nothing' : describe(value)}.`);
+      return undefined;
+    }
+    this.unknownFields(path, value, PHRASE_FIELDS);
+    const hanzi = this.text(`${path}.hanzi`, value.hanzi);
+    const pinyin = this.text(`${path}.pinyin`, value.pinyin);
+    const english = this.text(`${path}.english`, value.english, false);
+    if (hanzi === undefined || pinyin === undefined) return undefined;
+
+    validatePinyin(pinyin, hanzi).issues.forEach(issue => this.fail(`${path}.pinyin`, issue));
+    return { hanzi, pinyin, ...(english ? { english } : {}) };
+  }
+}
+
+export function validateLessonFile(data: unknown): LessonValidationResult {
+  const check = new Checker();
+  if (!isObject(data)) {
+    return { lesson: null, errors: [`The lesson file must contain a JSON object, got ${describe(data)}.`] };
+  }
+  check.unknownFields('', data, LESSON_FIELDS);
+
+  const id = check.text('id', data.id);
+  if (id !== undefined && !ID_PATTERN.test(id)) {
+    check.fail('id', 'may only contain letters, numbers, "-" and "_".');
+  }
+  const title = check.text('title', data.title);
+  const description = check.text('description', data.description, false);
+  const topic = check.text('topic', data.topic);
+  const aiRole = check.text('aiRole', data.aiRole);
+  const learnerRole = check.text('learnerRole', data.learnerRole);
+  const notes = check.text('notes', data.notes, false);
+  const persona = check.text('persona', data.persona, false);
+  if (persona && !TUTOR_PERSONAS.some(p => p.id === persona)) {
+    check.fail('persona', `must be one of ${TUTOR_PERSONAS.map(p => p.id).join(', ')}, got "${persona}".`);
+  }
+
+  const level = data.level as LessonLevel;
+  if (!LEVELS.includes(level)) {
+    check.fail('level', `must be one of ${LEVELS.join(', ')}, got ${data.level === undefined ? 'nothing' : describe(data.level)}.`);
+  }
+
+  const objectives: string[] = [];
+  if (!Array.isArray(data.objectives) || data.objectives.length === 0) {
+    check.fail('objectives', 'must be a non-empty list of steps.');
+  } else {
+    data.objectives.forEach((objective, index) => {
+      const value = check.text(`objectives[${index}]`, objective);
+      if (value !== undefined) objectives.push(value);
+    });
+  }
+
+  const vocabulary: LessonVocabularyItem[] = [];
+  if (data.vocabulary !== undefined && !Array.isArray(data.vocabulary)) {
+    check.fail('vocabulary', `must be a list, got ${describe(data.vocabulary)}.`);
+  } else {
+    (data.vocabulary as unknown[] | undefined || []).forEach((item, index) => {
+      const value = check.phrase(`vocabulary[${index}]`, item);
+      if (value) vocabulary.push(value);
+    });
+  }
+
+  const openingLine = check.phrase('openingLine', data.openingLine);
+
+  if (check.errors.length > 0) return { lesson: null, errors: check.errors };
+
+  return {
+    errors: [],
+    lesson: {
+      id: id!,
+      title: title!,
+      ...(description ? { description } : {}),
+      level,
+      topic: topic!,
+      aiRole: aiRole!,
+      learnerRole: learnerRole!,
+      objectives,
+      vocabulary,
+      openingLine: openingLine!,
+      ...(notes ? { notes } : {}),
+      ...(persona ? { persona } : {}),
+    },
+  };
+}
+
+// Parses and validates the raw text of an uploaded .json file
+export function parseLessonFile(text: string): LessonValidationResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { lesson: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return validateLessonFile(data);
+}
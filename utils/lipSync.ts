@@ -0,0 +1,129 @@
+import { OutputAudioFrame } from '../types';
+import { getSyllables } from './pinyin';
+
+// Mouth shapes the avatar can show; one per Mandarin main vowel, plus closed lips
+export type Viseme = 'sil' | 'aa' | 'oh' | 'ih' | 'ee' | 'ou' | 'yu';
+
+const VOICED_VISEMES: Viseme[] = ['aa', 'oh', 'ih', 'ee', 'ou', 'yu'];
+
+// Analysis bands in Hz: low and high first-formant regions (close vs open vowels), second formant, and fricative noise
+export const LIP_SYNC_BANDS_HZ: [number, number][] = [[150, 600], [600, 1200], [1200, 2800], [2800, 6000]];
+
+// Typical share of each band's energy per vowel. Open vowels peak in band 1, front vowels in band 2.
+const VISEME_PROFILES: Record<Exclude<Viseme, 'sil'>, number[]> = {
+  aa: [0.2, 0.45, 0.25, 0.1],
+  oh: [0.35, 0.4, 0.15, 0.1],
+  ih: [0.35, 0.25, 0.3, 0.1],
+  ee: [0.45, 0.1, 0.35, 0.1],
+  ou: [0.6, 0.2, 0.12, 0.08],
+  yu: [0.5, 0.15, 0.27, 0.08],
+};
+
+// Below this mean spectrum level the mouth closes
+const SILENCE_VOLUME = 0.05;
+// Above this share of fricative energy the sound is a consonant such as s, sh or x: teeth together, lips apart
+const FRICATIVE_SHARE = 0.35;
+// Bonus for the viseme the pinyin timeline expects now, and a smaller one for its neighbours,
+// which absorbs the timeline drifting against the real syllable rate. Spectral scores are squared share errors.
+const TIMELINE_WEIGHT = 0.08;
+const NEIGHBOUR_WEIGHT = 0.03;
+// Fraction of each syllable given to its initial consonant
+const INITIAL_SHARE = 0.25;
+// Lower bound on a turn's length while its audio is still arriving
+const NOMINAL_SYLLABLE_S = 0.22;
+
+export interface LipSyncSlot {
+  initial: Viseme | null; // Bilabials (b, p, m) close the lips before the vowel
+  final: Viseme;
+}
+
+const APICAL_INITIALS = /^(zh|ch|sh|r|z|c|s)i$/; // "shi", "zi": the i is a buzzed consonant, not [i]
+const PALATAL_U = /^[jqxy]u/; // "ju", "xue", "yun": u is written for ü
+
+// The main vowel of a final is the one that carries the tone mark: a or e if present, o in "ou", else the last vowel
+function mainVowel(base: string): string {
+  if (APICAL_INITIALS.test(base)) return 'apical';
+  const spelled = PALATAL_U.test(base) ? base.replace('u', 'ü') : base;
+  if (spelled.includes('a')) return 'a';
+  if (spelled.includes('e')) return 'e';
+  if (spelled.includes('ou')) return 'o';
+  const vowels = spelled.match(/[iouü]/g);
+  return vowels ? vowels[vowels.length - 1] : 'sil';
+}
+
+const VOWEL_VISEMES: Record<string, Viseme> = {
+  a: 'aa', o: 'oh', e: 'ih', i: 'ee', u: 'ou', 'ü': 'yu', apical: 'ih', sil: 'sil',
+};
+
+/** One slot per pinyin syllable, in order. Empty if the text has no syllables. */
+export function buildLipSyncTimeline(pinyin: string | undefined): LipSyncSlot[] {
+  if (!pinyin) return [];
+  return getSyllables(pinyin).map(syllable => ({
+    initial: /^[bpm]/.test(syllable.base) ? 'sil' : null,
+    final: VOWEL_VISEMES[mainVowel(syllable.base)],
+  }));
+}
+
+/**
+ * Mean energy per LIP_SYNC_BANDS_HZ band from AnalyserNode byte data.
+ * Bytes are decibels scaled between minDecibels and maxDecibels, so they are converted back to linear power.
+ */
+export function measureBands(frequencyData: Uint8Array, sampleRate: number, minDecibels: number, maxDecibels: number): number[] {
+  const binHz = sampleRate / 2 / frequencyData.length;
+  return LIP_SYNC_BANDS_HZ.map(([from, to]) => {
+    const first = Math.max(1, Math.floor(from / binHz));
+    const last = Math.min(frequencyData.length - 1, Math.ceil(to / binHz));
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const db = minDecibels + frequencyData[i] / 255 * (maxDecibels - minDecibels);
+      sum += frequencyData[i] === 0 ? 0 : Math.pow(10, db / 10);
+    }
+    return last >= first ? sum / (last - first + 1) : 0;
+  });
+}
+
+// Where the timeline is at this point of the turn, or null if nothing is playing
+function timelinePosition(timeline: LipSyncSlot[], frame: OutputAudioFrame): { index: number; inInitial: boolean } | null {
+  if (timeline.length === 0 || frame.turnDuration <= 0) return null;
+  const duration = frame.isTurnComplete
+    ? frame.turnDuration
+    : Math.max(frame.turnDuration, timeline.length * NOMINAL_SYLLABLE_S);
+  const position = Math.min(0.9999, Math.max(0, frame.turnElapsed / duration)) * timeline.length;
+  const index = Math.floor(position);
+  return { index, inInitial: position - index < INITIAL_SHARE };
+}
+
+/**
+ * Picks the mouth shape for one frame of the tutor's voice. The same frame and timeline always give the same viseme.
+ * The spectrum decides between candidate vowels; the subtitle's pinyin, spread evenly across the turn, breaks the tie
+ * towards the vowel that should be sounding. Without a timeline the spectrum decides alone.
+ */
+export function chooseViseme(frame: OutputAudioFrame | null, timeline: LipSyncSlot[]): Viseme {
+  if (!frame || frame.volume < SILENCE_VOLUME) return 'sil';
+
+  const total = frame.bands.reduce((sum, band) => sum + band, 0);
+  const shares = total > 0 ? frame.bands.map(band => band / total) : [0, 0, 0, 0];
+  if (shares[3] > FRICATIVE_SHARE) return 'ih';
+
+  const position = timelinePosition(timeline, frame);
+  const slot = position ? timeline[position.index] : null;
+  if (slot && position.inInitial && slot.initial) return slot.initial;
+  const neighbours = position
+    ? [timeline[position.index - 1], timeline[position.index + 1]].filter(Boolean).map(s => s.final)
+    : [];
+
+  let best: Viseme = 'sil';
+  let bestScore = -Infinity;
+  for (const viseme of VOICED_VISEMES) {
+    const profile = VISEME_PROFILES[viseme];
+    let score = -profile.reduce((sum, share, i) => sum + (share - shares[i]) ** 2, 0);
+    if (slot?.final === viseme) score += TIMELINE_WEIGHT;
+    else if (neighbours.includes(viseme)) score += NEIGHBOUR_WEIGHT;
+    // Strict comparison keeps ties on the earlier, fixed-order viseme
+    if (score > bestScore) {
+      bestScore = score;
+      best = viseme;
+    }
+  }
+  return best;
+}
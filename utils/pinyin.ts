@@ -0,0 +1,281 @@
+// Pinyin toolkit: syllable segmentation, tone number <-> diacritic conversion,
+// validation of model output and tone-sandhi annotation.
+
+export type Tone = 1 | 2 | 3 | 4 | 5; // 5 = neutral tone
+
+export interface PinyinSyllable {
+  kind: 'syllable';
+  text: string;      // As written, e.g. "hǎo" or "hao3"
+  base: string;      // Toneless, lowercase, ü kept, e.g. "hao", "lü"
+  tone: Tone;
+  sandhiTone?: Tone; // Tone actually spoken after sandhi, when it differs
+  valid: boolean;    // false if the base is not a standard Mandarin syllable
+}
+
+export interface PinyinSeparator {
+  kind: 'separator';
+  text: string;      // Spaces, punctuation, apostrophes
+}
+
+export type PinyinToken = PinyinSyllable | PinyinSeparator;
+
+const TONE_MARKED_VOWELS: Record<string, [string, Tone]> = {
+  'ā': ['a', 1], 'á': ['a', 2], 'ǎ': ['a', 3], 'à': ['a', 4],
+  'ē': ['e', 1], 'é': ['e', 2], 'ě': ['e', 3], 'è': ['e', 4],
+  'ī': ['i', 1], 'í': ['i', 2], 'ǐ': ['i', 3], 'ì': ['i', 4],
+  'ō': ['o', 1], 'ó': ['o', 2], 'ǒ': ['o', 3], 'ò': ['o', 4],
+  'ū': ['u', 1], 'ú': ['u', 2], 'ǔ': ['u', 3], 'ù': ['u', 4],
+  'ǖ': ['ü', 1], 'ǘ': ['ü', 2], 'ǚ': ['ü', 3], 'ǜ': ['ü', 4],
+};
+
+const MARKS_BY_VOWEL: Record<string, string[]> = {
+  a: ['ā', 'á', 'ǎ', 'à'], e: ['ē', 'é', 'ě', 'è'], i: ['ī', 'í', 'ǐ', 'ì'],
+  o: ['ō', 'ó', 'ǒ', 'ò'], u: ['ū', 'ú', 'ǔ', 'ù'], 'ü': ['ǖ', 'ǘ', 'ǚ', 'ǜ'],
+};
+
+// Every standard Mandarin syllable without tone (ü written as ü)
+const SYLLABLES = new Set(`
+a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu ca cai can cang cao ce cen ceng
+cha chai chan chang chao che chen cheng chi chong chou chu chua chuai chuan chuang chui chun chuo ci cong cou cu
+cuan cui cun cuo da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan dui dun duo
+e ei en eng er fa fan fang fei fen feng fo fou fu ga gai gan gang gao ge gei gen geng gong gou gu gua guai guan
+guang gui gun guo ha hai han hang hao he hei hen heng hong hou hu hua huai huan huang hui hun huo ji jia jian
+jiang jiao jie jin jing jiong jiu ju juan jue jun ka kai kan kang kao ke kei ken keng kong kou ku kua kuai kuan
+kuang kui kun kuo la lai lan lang lao le lei leng li lia lian liang liao lie lin ling liu lo long lou lu lü luan
+lüe lun luo ma mai man mang mao me mei men meng mi mian miao mie min ming miu mo mou mu na nai nan nang nao ne nei
+nen neng ni nian niang niao nie nin ning niu nong nou nu nü nuan nüe nuo o ou pa pai pan pang pao pei pen peng pi
+pian piao pie pin ping po pou pu qi qia qian qiang qiao qie qin qing qiong qiu qu quan que qun ran rang rao re ren
+reng ri rong rou ru rua ruan rui run ruo sa sai san sang sao se sen seng sha shai shan shang shao she shei shen
+sheng shi shou shu shua shuai shuan shuang shui shun shuo si song sou su suan sui sun suo ta tai tan tang tao te
+teng ti tian tiao tie ting tong tou tu tuan tui tun tuo wa wai wan wang wei wen weng wo wu xi xia xian xiang xiao
+xie xin xing xiong xiu xu xuan xue xun ya yan yang yao ye yi yin ying yo yong you yu yuan yue yun za zai zan zang
+zao ze zei zen zeng zha zhai zhan zhang zhao zhe zhei zhen zheng zhi zhong zhou zhu zhua zhuai zhuan zhuang zhui
+zhun zhuo zi zong zou zu zuan zui zun zuo r
+`.trim().split(/\s+/));
+
+const MAX_SYLLABLE_LENGTH = 6;
+
+/** Strips tone marks, returning the toneless syllable and its tone (5 if unmarked). */
+function stripTone(raw: string): { base: string; tone: Tone } {
+  let tone: Tone = 5;
+  let base = '';
+  for (const ch of raw.toLowerCase().normalize('NFC')) {
+    const marked = TONE_MARKED_VOWELS[ch];
+    if (marked) {
+      base += marked[0];
+      tone = marked[1];
+    } else if (/[1-5]/.test(ch)) {
+      tone = Number(ch) as Tone;
+    } else {
+      base += ch === 'v' ? 'ü' : ch;
+    }
+  }
+  // "lu:" / "nu:" spellings from some IMEs
+  return { base: base.replace(/u:/g, 'ü'), tone };
+}
+
+/**
+ * Splits a run of letters into syllables, preferring the split with the fewest syllables
+ * (so "xian" stays one syllable and "Xi'an" is separated only by the apostrophe).
+ * Returns null if the run cannot be fully segmented into standard syllables.
+ */
+function splitRun(run: string): string[] | null {
+  // With "u:" folded into one letter first, stripTone maps each letter of the run to one letter of the base,
+  // so indexes into `lower` line up with `raw`
+  const raw = Array.from(run.normalize('NFC').replace(/([uU]):/g, (_, u: string) => u === 'U' ? 'Ü' : 'ü'));
+  const lower = stripTone(raw.join('')).base;
+  const best: (string[] | null)[] = new Array(lower.length + 1).fill(null);
+  best[0] = [];
+  for (let end = 1; end <= lower.length; end++) {
+    for (let start = Math.max(0, end - MAX_SYLLABLE_LENGTH); start < end; start++) {
+      const prev = best[start];
+      if (!prev || !SYLLABLES.has(lower.slice(start, end))) continue;
+      const candidate = [...prev, raw.slice(start, end).join('')];
+      const current = best[end];
+      // Fewer syllables wins; ambiguous runs like "fangan" should carry an apostrophe anyway
+      if (!current || candidate.length < current.length) best[end] = candidate;
+    }
+  }
+  return best[lower.length];
+}
+
+function makeSyllable(text: string): PinyinSyllable {
+  const { base, tone } = stripTone(text);
+  return { kind: 'syllable', text, base, tone, valid: SYLLABLES.has(base) };
+}
+
+/**
+ * Segments a pinyin string into syllables and separators.
+ * Handles diacritics ("Nǐ hǎo"), tone numbers ("ni3 hao3") and joined words ("míngzi", "gōngzuò").
+ */
+export function segmentPinyin(pinyin: string): PinyinToken[] {
+  const tokens: PinyinToken[] = [];
+  const text = pinyin.normalize('NFC');
+  // Words are letter runs optionally followed by a tone digit; anything else is a separator
+  const pattern = /([a-zA-ZüÜvV:āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜĀÁǍÀĒÉĚÈĪÍǏÌŌÓǑÒŪÚǓÙ]+[1-5]?)|([^a-zA-ZüÜvV:āáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜĀÁǍÀĒÉĚÈĪÍǏÌŌÓǑÒŪÚǓÙ]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[2]) {
+      tokens.push({ kind: 'separator', text: match[2] });
+      continue;
+    }
+    const word = match[1];
+    // Numbered syllables are already delimited by their digit
+    if (/[1-5]$/.test(word)) {
+      tokens.push(makeSyllable(word));
+      continue;
+    }
+    const parts = splitRun(word);
+    if (parts) {
+      parts.forEach(part => tokens.push(makeSyllable(part)));
+    } else {
+      tokens.push(makeSyllable(word));
+    }
+  }
+
+  return tokens;
+}
+
+export function getSyllables(pinyin: string): PinyinSyllable[] {
+  return segmentPinyin(pinyin).filter((t): t is PinyinSyllable => t.kind === 'syllable');
+}
+
+export function tonesFromPinyin(pinyin: string): Tone[] {
+  return getSyllables(pinyin).map(s => s.tone);
+}
+
+/** Places a tone mark on a toneless syllable using the standard a/e > ou > last vowel rule. */
+export function applyToneMark(base: string, tone: Tone): string {
+  const syllable = base.replace(/v/g, 'ü');
+  if (tone === 5) return syllable;
+  let index = syllable.search(/[ae]/);
+  if (index === -1) index = syllable.indexOf('ou');
+  if (index === -1) {
+    for (let i = syllable.length - 1; i >= 0; i--) {
+      if ('iouü'.includes(syllable[i])) { index = i; break; }
+    }
+  }
+  if (index === -1) return syllable; // Syllabic consonants like "r" or "m"
+  return syllable.slice(0, index) + MARKS_BY_VOWEL[syllable[index]][tone - 1] + syllable.slice(index + 1);
+}
+
+/** "ni3 hao3" -> "nǐ hǎo" */
+export function numberedToDiacritic(pinyin: string): string {
+  return pinyin.replace(/([a-zA-ZüÜvV:]+)([1-5])/g, (_, letters: string, digit: string) => {
+    const marked = applyToneMark(letters.toLowerCase().replace('u:', 'ü'), Number(digit) as Tone);
+    return letters[0] === letters[0].toUpperCase() ? marked[0].toUpperCase() + marked.slice(1) : marked;
+  });
+}
+
+/** "nǐ hǎo" -> "ni3 hao3". Neutral-tone syllables get a 5. */
+export function diacriticToNumbered(pinyin: string): string {
+  return segmentPinyin(pinyin).map(token => {
+    if (token.kind === 'separator') return token.text;
+    const { base, tone } = stripTone(token.text);
+    const capitalised = token.text[0] !== token.text[0].toLowerCase();
+    return (capitalised ? base[0].toUpperCase() + base.slice(1) : base) + tone;
+  }).join('');
+}
+
+export interface PinyinValidationResult {
+  valid: boolean;
+  issues: string[];
+}
+
+/** Flags common defects in model-generated pinyin so the UI can fall back to plain text. */
+export function validatePinyin(pinyin: string, hanzi?: string): PinyinValidationResult {
+  const issues: string[] = [];
+  if (!pinyin.trim()) issues.push('Pinyin is empty.');
+  if (/[㐀-鿿]/.test(pinyin)) issues.push('Pinyin contains Chinese characters.');
+
+  const hasNumbers = /[a-zü][1-5]/i.test(pinyin);
+  const hasMarks = Array.from(pinyin.normalize('NFC')).some(ch => TONE_MARKED_VOWELS[ch.toLowerCase()]);
+  if (hasNumbers && hasMarks) issues.push('Mixes tone numbers and tone marks.');
+
+  const syllables = getSyllables(pinyin);
+  syllables.filter(s => !s.valid).forEach(s => issues.push(`"${s.text}" is not a valid syllable.`));
+  syllables
+    .filter(s => Array.from(s.text.normalize('NFC')).filter(ch => TONE_MARKED_VOWELS[ch.toLowerCase()]).length > 1)
+    .forEach(s => issues.push(`"${s.text}" has more than one tone mark.`));
+
+  if (hanzi) {
+    const characterCount = countHanzi(hanzi);
+    if (characterCount > 0 && characterCount !== syllables.length) {
+      issues.push(`${syllables.length} syllables for ${characterCount} characters.`);
+    }
+  }
+
+  return { valid: issues.length === 0, issues };
+}
+
+// Separators other than spaces, apostrophes and hyphens are punctuation; sandhi does not carry across them
+const PHRASE_BREAK = /[^\s'’-]/;
+
+/**
+ * Annotates the tones actually spoken: 3-3 pairs (first becomes 2nd tone),
+ * 一 (2nd before a 4th tone, 4th before others) and 不 (2nd before a 4th tone).
+ * Pass the hanzi when available so 一/不 are recognised by character rather than by syllable.
+ * Pass separators too (segmentPinyin) so punctuation in the pinyin or the hanzi ends a phrase: in 你好！你呢 好 keeps tone 3.
+ */
+export function annotateSandhi(tokens: PinyinToken[], hanzi?: string): PinyinSyllable[] {
+  const syllables: PinyinSyllable[] = [];
+  const breaksAfter = new Set<number>();
+  for (const token of tokens) {
+    if (token.kind === 'syllable') syllables.push(token);
+    else if (syllables.length > 0 && PHRASE_BREAK.test(token.text)) breaksAfter.add(syllables.length - 1);
+  }
+
+  const characters: string[] = [];
+  const characterBreaksAfter = new Set<number>();
+  for (const char of hanzi ? Array.from(hanzi) : []) {
+    if (isHanzi(char)) characters.push(char);
+    else if (characters.length > 0 && PHRASE_BREAK.test(char)) characterBreaksAfter.add(characters.length - 1);
+  }
+  const aligned = characters.length === syllables.length;
+  if (aligned) characterBreaksAfter.forEach(i => breaksAfter.add(i));
+
+  return syllables.map((syllable, i) => {
+    const next = breaksAfter.has(i) ? undefined : syllables[i + 1];
+    const char = aligned ? characters[i] : undefined;
+    let sandhiTone: Tone | undefined;
+
+    const isYi = char ? char === '一' : syllable.base === 'yi' && syllable.tone === 1;
+    const isBu = char ? char === '不' : syllable.base === 'bu' && syllable.tone === 4;
+
+    if (next && isYi) {
+      sandhiTone = next.tone === 4 ? 2 : next.tone === 5 ? undefined : 4;
+    } else if (next && isBu) {
+      sandhiTone = next.tone === 4 ? 2 : undefined;
+    } else if (next && syllable.tone === 3 && next.tone === 3) {
+      sandhiTone = 2;
+    }
+
+    return sandhiTone && sandhiTone !== syllable.tone ? { ...syllable, sandhiTone } : { ...syllable };
+  });
+}
+
+export function isHanzi(ch: string): boolean {
+  return /[㐀-䶿一-鿿豈-﫿]/.test(ch);
+}
+
+function countHanzi(text: string): number {
+  return Array.from(text).filter(isHanzi).length;
+}
+
+export interface AlignedCharacter {
+  char: string;
+  syllable?: PinyinSyllable; // Missing for punctuation or when alignment failed
+}
+
+/**
+ * Pairs each hanzi with its pinyin syllable. Returns null if the counts disagree,
+ * in which case callers should render hanzi and pinyin on separate lines.
+ */
+export function alignPinyinToHanzi(hanzi: string, pinyin: string): AlignedCharacter[] | null {
+  const syllables = annotateSandhi(segmentPinyin(pinyin), hanzi);
+  if (syllables.length !== countHanzi(hanzi)) return null;
+
+  let index = 0;
+  return Array.from(hanzi).map(char => isHanzi(char) ? { char, syllable: syllables[index++] } : { char });
+}
@@ -0,0 +1,164 @@
+import { PitchContour, PitchPoint } from '../types';
+
+// YIN parameters tuned for speech at 16 kHz: 40ms analysis window, 10ms hop, 70-400 Hz search range.
+const FRAME_SIZE = 640;
+const HOP_SIZE = 160;
+const MIN_FREQUENCY = 70;
+const MAX_FREQUENCY = 400;
+const YIN_THRESHOLD = 0.15;
+// Frames quieter than this (RMS) are treated as silence and skipped without running YIN
+const SILENCE_RMS = 0.01;
+
+/**
+ * YIN fundamental frequency estimate for a single frame (de Cheveigné & Kawahara, 2002).
+ * Returns null for unvoiced or silent frames.
+ */
+export function estimatePitchYin(frame: Float32Array, sampleRate: number): number | null {
+  const minTau = Math.floor(sampleRate / MAX_FREQUENCY);
+  const maxTau = Math.min(Math.floor(sampleRate / MIN_FREQUENCY), Math.floor(frame.length / 2));
+  const windowSize = frame.length - maxTau;
+  if (windowSize <= 0) return null;
+
+  // Difference function combined with the cumulative mean normalization
+  const cmnd = new Float32Array(maxTau + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let diff = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = frame[i] - frame[i + tau];
+      diff += delta * delta;
+    }
+    runningSum += diff;
+    cmnd[tau] = runningSum === 0 ? 1 : diff * tau / runningSum;
+  }
+
+  // First dip below the absolute threshold, followed down to its local minimum
+  let tauEstimate = -1;
+  for (let tau = minTau; tau <= maxTau; tau++) {
+    if (cmnd[tau] < YIN_THRESHOLD) {
+      while (tau + 1 <= maxTau && cmnd[tau + 1] < cmnd[tau]) tau++;
+      tauEstimate = tau;
+      break;
+    }
+  }
+  if (tauEstimate === -1) return null;
+
+  // Parabolic interpolation around the minimum for sub-sample precision
+  let betterTau = tauEstimate;
+  if (tauEstimate > 1 && tauEstimate < maxTau) {
+    const s0 = cmnd[tauEstimate - 1];
+    const s1 = cmnd[tauEstimate];
+    const s2 = cmnd[tauEstimate + 1];
+    const denominator = 2 * (2 * s1 - s2 - s0);
+    if (denominator !== 0) betterTau = tauEstimate + (s2 - s0) / denominator;
+  }
+
+  const frequency = sampleRate / betterTau;
+  return frequency >= MIN_FREQUENCY && frequency <= MAX_FREQUENCY ? frequency : null;
+}
+
+function frameRms(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+}
+
+/**
+ * Incremental pitch tracker fed with mic chunks as they arrive, so the YIN work is spread
+ * over the utterance instead of running all at once when the learner stops speaking.
+ */
+export class PitchTracker {
+  private sampleRate: number;
+  private pending: Float32Array = new Float32Array(0);
+  private points: PitchPoint[] = [];
+  private frameIndex = 0;
+
+  constructor(sampleRate: number = 16000) {
+    this.sampleRate = sampleRate;
+  }
+
+  push(samples: Float32Array) {
+    const merged = new Float32Array(this.pending.length + samples.length);
+    merged.set(this.pending);
+    merged.set(samples, this.pending.length);
+
+    let offset = 0;
+    while (offset + FRAME_SIZE <= merged.length) {
+      const frame = merged.subarray(offset, offset + FRAME_SIZE);
+      const frequency = frameRms(frame) < SILENCE_RMS ? null : estimatePitchYin(frame, this.sampleRate);
+      this.points.push({ time: this.frameIndex * HOP_SIZE / this.sampleRate, frequency });
+      this.frameIndex++;
+      offset += HOP_SIZE;
+    }
+    this.pending = merged.slice(offset);
+  }
+
+  hasVoicedFrames(): boolean {
+    return this.points.some(p => p.frequency !== null);
+  }
+
+  // Returns the contour trimmed to the voiced region and resets the tracker for the next utterance
+  finish(): PitchContour | null {
+    const points = this.points;
+    this.reset();
+
+    const first = points.findIndex(p => p.frequency !== null);
+    if (first === -1) return null;
+    let last = points.length - 1;
+    while (last > first && points[last].frequency === null) last--;
+
+    const startTime = points[first].time;
+    const trimmed = removeOctaveJumps(points.slice(first, last + 1))
+      .map(p => ({ time: p.time - startTime, frequency: p.frequency }));
+
+    return {
+      points: trimmed,
+      duration: trimmed[trimmed.length - 1].time + HOP_SIZE / this.sampleRate,
+      capturedAt: Date.now(),
+    };
+  }
+
+  reset() {
+    this.pending = new Float32Array(0);
+    this.points = [];
+    this.frameIndex = 0;
+  }
+}
+
+// YIN occasionally locks onto half or double the true F0; fold isolated jumps back toward the median.
+function removeOctaveJumps(points: PitchPoint[]): PitchPoint[] {
+  const median = medianFrequency(points);
+  if (!median) return points;
+  return points.map(p => {
+    if (p.frequency === null) return p;
+    let f = p.frequency;
+    if (f > median * 1.8) f /= 2;
+    else if (f < median / 1.8) f *= 2;
+    return { ...p, frequency: f };
+  });
+}
+
+export function medianFrequency(points: PitchPoint[]): number | null {
+  const voiced = points.map(p => p.frequency).filter((f): f is number => f !== null).sort((a, b) => a - b);
+  if (voiced.length === 0) return null;
+  return voiced[Math.floor(voiced.length / 2)];
+}
+
+/**
+ * Maps a frequency to the five-level Chao tone scale relative to the speaker's median pitch.
+ * One Chao level is roughly three semitones, with the median sitting at level 3.
+ */
+export function frequencyToChaoLevel(frequency: number, median: number): number {
+  const semitones = 12 * Math.log2(frequency / median);
+  return Math.max(1, Math.min(5, 3 + semitones / 3));
+}
+
+// Reference contours in Chao tone letters, sampled start → end. Tone 5 is the neutral tone.
+export const EXPECTED_TONE_CONTOURS: Record<number, number[]> = {
+  1: [5, 5, 5],
+  2: [3, 4, 5],
+  3: [2, 1, 1, 4],
+  4: [5, 3, 1],
+  5: [3, 2.5],
+};
@@ -0,0 +1,106 @@
+import { ArchivedSession } from '../types';
+import { getSyllables, Tone } from './pinyin';
+
+// Feedback at or below this score counts as a weak attempt for the syllable/tone breakdown
+export const LOW_SCORE_THRESHOLD = 60;
+
+export interface DailyProgress {
+  day: string; // YYYY-MM-DD in local time
+  averageScore: number | null;
+  attempts: number;
+  practiceMinutes: number;
+}
+
+export interface LessonProgress {
+  lessonId: string | null;
+  lessonTitle?: string; // Recorded at the time, so imported lessons keep their name after removal
+  averageScore: number;
+  attempts: number;
+}
+
+export interface WeakSyllable {
+  syllable: string; // Toneless base + tone number, e.g. "hao3"
+  count: number;
+}
+
+export interface ProgressStats {
+  days: DailyProgress[];
+  lessons: LessonProgress[];
+  weakTones: Record<Tone, number>;
+  weakSyllables: WeakSyllable[];
+  totalPracticeMinutes: number;
+  totalAttempts: number;
+  overallAverage: number | null;
+}
+
+const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export function computeProgressStats(sessions: ArchivedSession[]): ProgressStats {
+  const dayScores = new Map<string, number[]>();
+  const dayMinutes = new Map<string, number>();
+  const lessonScores = new Map<string | null, number[]>();
+  const lessonTitles = new Map<string | null, string>();
+  const weakTones: Record<Tone, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const weakSyllableCounts = new Map<string, number>();
+  const allScores: number[] = [];
+  let totalPracticeMinutes = 0;
+
+  for (const session of sessions) {
+    const minutes = Math.max(0, session.endedAt - session.startedAt) / 60000;
+    const sessionDay = toDayKey(session.startedAt);
+    dayMinutes.set(sessionDay, (dayMinutes.get(sessionDay) || 0) + minutes);
+    totalPracticeMinutes += minutes;
+    if (session.lessonTitle) lessonTitles.set(session.lessonId, session.lessonTitle);
+
+    for (const event of session.feedback) {
+      const score = Number(event.score);
+      if (!Number.isFinite(score)) continue;
+      allScores.push(score);
+
+      const day = toDayKey(event.timestamp);
+      dayScores.set(day, [...(dayScores.get(day) || []), score]);
+      lessonScores.set(session.lessonId, [...(lessonScores.get(session.lessonId) || []), score]);
+
+      if (score <= LOW_SCORE_THRESHOLD) {
+        for (const syllable of getSyllables(event.pinyin || '')) {
+          if (!syllable.valid) continue;
+          weakTones[syllable.tone] += 1;
+          const key = `${syllable.base}${syllable.tone}`;
+          weakSyllableCounts.set(key, (weakSyllableCounts.get(key) || 0) + 1);
+        }
+      }
+    }
+  }
+
+  const dayKeys = Array.from(new Set([...dayScores.keys(), ...dayMinutes.keys()])).sort();
+
+  return {
+    days: dayKeys.map(day => ({
+      day,
+      averageScore: average(dayScores.get(day) || []),
+      attempts: (dayScores.get(day) || []).length,
+      practiceMinutes: dayMinutes.get(day) || 0,
+    })),
+    lessons: Array.from(lessonScores.entries()).map(([lessonId, scores]) => ({
+      lessonId,
+      lessonTitle: lessonTitles.get(lessonId),
+      averageScore: average(scores) || 0,
+      attempts: scores.length,
+    })),
+    weakTones,
+    weakSyllables: Array.from(weakSyllableCounts.entries())
+      .map(([syllable, count]) => ({ syllable, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 12),
+    totalPracticeMinutes,
+    totalAttempts: allScores.length,
+    overallAverage: average(allScores),
+  };
+}
@@ -0,0 +1,28 @@
+export interface RetryPolicy {
+  maxAttempts: number; // Reconnects allowed before giving up
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of each delay that is randomised, so many clients dropped together do not reconnect in lockstep
+  jitter: number;
+  // A session that stays up this long refills the attempt budget
+  stableAfterMs: number;
+}
+
+// Fixed reconnect behaviour, not a user setting. LiveApiService accepts another policy as a constructor argument,
+// but the app always uses this one.
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  multiplier: 2,
+  jitter: 0.5,
+  stableAfterMs: 30000,
+};
+
+// Exponential backoff for the 1-based `attempt`, with the top `jitter` fraction drawn at random
+export function getRetryDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1)));
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(base * (1 - jitter * random()));
+}
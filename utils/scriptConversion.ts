@@ -0,0 +1,89 @@
+import { ChineseScript, ConversationTurn, GrammarError, PronunciationFeedback, SubtitleData } from '../types';
+import { SIMPLIFIED_TRADITIONAL_PAIRS, TRADITIONAL_PHRASES, TRADITIONAL_VARIANT_PAIRS, SIMPLIFIED_PHRASES } from '../data/chineseScripts';
+
+interface ConversionTable {
+  chars: Map<string, string>;
+  phrases: Map<string, string>;
+  maxPhraseLength: number;
+}
+
+let tables: Record<ChineseScript, ConversionTable> | null = null;
+
+function parsePairs(pairs: string): [string, string][] {
+  return pairs.split(/\s+/).map(pair => Array.from(pair)).filter(chars => chars.length === 2) as [string, string][];
+}
+
+function buildTable(chars: [string, string][], phrases: Record<string, string>): ConversionTable {
+  const phraseMap = new Map(Object.entries(phrases));
+  const maxPhraseLength = Math.max(1, ...Array.from(phraseMap.keys(), phrase => Array.from(phrase).length));
+  return { chars: new Map(chars), phrases: phraseMap, maxPhraseLength };
+}
+
+// Built on first use; the pair tables are only strings until then
+function getTables(): Record<ChineseScript, ConversionTable> {
+  if (tables) return tables;
+  const pairs = parsePairs(SIMPLIFIED_TRADITIONAL_PAIRS);
+  const reversed = pairs.map(([simplified, traditional]) => [traditional, simplified] as [string, string]);
+  tables = {
+    traditional: buildTable(pairs, TRADITIONAL_PHRASES),
+    simplified: buildTable([...reversed, ...parsePairs(TRADITIONAL_VARIANT_PAIRS)], SIMPLIFIED_PHRASES),
+  };
+  return tables;
+}
+
+// Same forward maximum matching as the word segmenter: the longest listed phrase at each position, else one character
+function applyTable(text: string, { chars, phrases, maxPhraseLength }: ConversionTable): string {
+  const input = Array.from(text);
+  let output = '';
+  let index = 0;
+  while (index < input.length) {
+    let matched = false;
+    for (let length = Math.min(maxPhraseLength, input.length - index); length > 1; length--) {
+      const phrase = phrases.get(input.slice(index, index + length).join(''));
+      if (phrase) {
+        output += phrase;
+        index += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      output += chars.get(input[index]) ?? input[index];
+      index++;
+    }
+  }
+  return output;
+}
+
+/**
+ * Writes hanzi in the given script. The character count never changes, so aligned pinyin still lines up.
+ * Text headed for Traditional is normalised to Simplified first: the model may already have written some
+ * Traditional words, and characters such as 干 or 后 are valid in both scripts with different meanings.
+ */
+export function convertScript(text: string, script: ChineseScript): string {
+  const { simplified, traditional } = getTables();
+  const normalised = applyTable(text, simplified);
+  return script === 'traditional' ? applyTable(normalised, traditional) : normalised;
+}
+
+export function convertSubtitle<T extends SubtitleData>(data: T, script: ChineseScript): T {
+  return { ...data, hanzi: convertScript(data.hanzi, script) };
+}
+
+// User turns are transcriptions and may hold hanzi too
+export function convertTurn(turn: ConversationTurn, script: ChineseScript): ConversationTurn {
+  return { ...turn, text: convertScript(turn.text, script) };
+}
+
+export function convertFeedback<T extends PronunciationFeedback>(feedback: T, script: ChineseScript): T {
+  return { ...feedback, userText: convertScript(feedback.userText, script) };
+}
+
+export function convertGrammarError<T extends GrammarError>(report: T, script: ChineseScript): T {
+  return {
+    ...report,
+    learnerSentence: convertScript(report.learnerSentence, script),
+    correctedSentence: convertScript(report.correctedSentence, script),
+    grammarPoint: convertScript(report.grammarPoint, script),
+  };
+}
@@ -0,0 +1,77 @@
+import { ReviewCard, ReviewGrade, SubtitleData } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+// Failed cards come back within the same study session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// Short phrases without sentence punctuation count as vocabulary, everything else as a sentence card.
+function inferCardKind(hanzi: string): ReviewCard['kind'] {
+  const trimmed = hanzi.trim();
+  return trimmed.length <= 4 && !/[。！？，,.!?]/.test(trimmed) ? 'word' : 'sentence';
+}
+
+export function createReviewCard(subtitle: SubtitleData, now: number = Date.now()): ReviewCard {
+  return {
+    id: now.toString() + Math.random(),
+    hanzi: subtitle.hanzi.trim(),
+    pinyin: subtitle.pinyin.trim(),
+    english: subtitle.english.trim(),
+    kind: inferCardKind(subtitle.hanzi),
+    createdAt: now,
+    easeFactor: INITIAL_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: now,
+  };
+}
+
+// Classic SM-2: grades below 3 reset the repetition count, otherwise the interval grows by the ease factor.
+export function scheduleReview(card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewCard {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < 3) {
+    return {
+      ...card,
+      easeFactor,
+      repetitions: 0,
+      intervalDays: 0,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(card.intervalDays * easeFactor);
+  }
+
+  return {
+    ...card,
+    easeFactor,
+    repetitions,
+    intervalDays,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+export function isCardDue(card: ReviewCard, now: number = Date.now()): boolean {
+  return card.dueAt <= now;
+}
+
+// Human-readable interval for grade buttons ("10 min", "6 d")
+export function describeNextInterval(card: ReviewCard, grade: ReviewGrade): string {
+  const next = scheduleReview(card, grade, 0);
+  if (next.intervalDays === 0) return `${Math.round(next.dueAt / 60000)} min`;
+  return `${next.intervalDays} d`;
+}
@@ -0,0 +1,56 @@
+import { LessonLevel, SubtitleLayer, SubtitleRevealMode } from '../types';
+
+export const SUBTITLE_LAYERS: SubtitleLayer[] = ['hanzi', 'pinyin', 'english'];
+
+export const REVEAL_MODES: { id: SubtitleRevealMode; label: string; description: string }[] = [
+  { id: 'all', label: 'Everything', description: 'Hanzi, pinyin and English' },
+  { id: 'hanziOnly', label: 'Hanzi only', description: 'Pinyin and English on request' },
+  { id: 'hidden', label: 'Hidden', description: 'Every layer on request' },
+  { id: 'afterAudio', label: 'After audio', description: 'Shown once the tutor finishes speaking' },
+];
+
+export const LAYER_LABELS: Record<SubtitleLayer, string> = {
+  hanzi: '汉字',
+  pinyin: 'Pinyin',
+  english: 'English',
+};
+
+// Keyboard shortcut (event.key, lower case) that reveals each layer of the current subtitle
+export const LAYER_SHORTCUTS: Record<SubtitleLayer, string> = {
+  hanzi: 'h',
+  pinyin: 'p',
+  english: 'e',
+};
+export const REVEAL_ALL_SHORTCUT = 'a';
+
+// Beginners read along; intermediate learners listen first; advanced learners work by ear
+const DEFAULT_MODE_BY_LEVEL: Record<LessonLevel, SubtitleRevealMode> = {
+  Beginner: 'all',
+  Intermediate: 'afterAudio',
+  Advanced: 'hidden',
+};
+
+export function defaultRevealMode(level?: LessonLevel): SubtitleRevealMode {
+  return level ? DEFAULT_MODE_BY_LEVEL[level] : 'all';
+}
+
+/**
+ * Layers of one AI line that start hidden under the given mode.
+ * `isAudioPending` is true while the line's own audio has not finished playing.
+ */
+export function getHiddenLayers(mode: SubtitleRevealMode, isAudioPending: boolean): SubtitleLayer[] {
+  switch (mode) {
+    case 'hanziOnly': return ['pinyin', 'english'];
+    case 'hidden': return SUBTITLE_LAYERS;
+    case 'afterAudio': return isAudioPending ? SUBTITLE_LAYERS : [];
+    default: return [];
+  }
+}
+
+/** Maps a key press to the layers it reveals, or null if it is not a reveal shortcut. */
+export function layersForShortcut(key: string): SubtitleLayer[] | null {
+  const lower = key.toLowerCase();
+  if (lower === REVEAL_ALL_SHORTCUT) return SUBTITLE_LAYERS;
+  const layer = SUBTITLE_LAYERS.find(l => LAYER_SHORTCUTS[l] === lower);
+  return layer ? [layer] : null;
+}
@@ -0,0 +1,151 @@
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 1.5;
+// "Slow" replay of a single turn from the history or subtitles
+export const SLOW_REPLAY_RATE = 0.7;
+
+const FRAME_MS = 40;
+const SEARCH_MS = 10; // How far a frame may slide from its nominal position to line up with the previous one
+
+/**
+ * Streaming WSOLA (waveform-similarity overlap-add) time stretcher for mono audio.
+ *
+ * Changes duration without changing pitch: 50%-overlapping Hann frames are read from the input every
+ * `hop * rate` samples and written to the output every `hop` samples. Each frame is shifted by up to
+ * SEARCH_MS to the position whose waveform best continues the previous frame, which avoids the phasing
+ * a plain overlap-add produces on voiced speech. At rate 1 frames land exactly on the input and it
+ * reconstructs the signal unchanged.
+ *
+ * The whole input since the last reset() is kept, so already scheduled output can be regenerated at a
+ * new rate with rewind(). Output lags the input by about one frame until flush() is called.
+ */
+export class TimeStretcher {
+  rate = 1;
+
+  private frameSize: number;
+  private hop: number;
+  private tolerance: number;
+  private window: Float32Array;
+
+  private input = new Float32Array(0);
+  private length = 0;
+  private analysisPosition = 0; // Nominal input position of the next frame (fractional)
+  private previousStart: number | null = null; // Where the last frame was actually read from
+  private overlap: Float32Array; // Overlap-add accumulator, one frame long
+  private isInputComplete = false;
+
+  constructor(sampleRate: number) {
+    this.hop = Math.round(sampleRate * FRAME_MS / 2000);
+    this.frameSize = this.hop * 2;
+    this.tolerance = Math.round(sampleRate * SEARCH_MS / 1000);
+    // Periodic Hann: two windows offset by half a frame sum to exactly 1
+    this.window = new Float32Array(this.frameSize).map((_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frameSize));
+    this.overlap = new Float32Array(this.frameSize);
+  }
+
+  // Input position of the next output sample; pass it to rewind() to regenerate from that point
+  get position(): number {
+    return this.previousStart === null ? Math.round(this.analysisPosition) : this.previousStart + this.hop;
+  }
+
+  push(samples: Float32Array): Float32Array {
+    this.append(samples);
+    this.isInputComplete = false;
+    return this.process();
+  }
+
+  // No more input for now (end of a turn): emits everything still held back
+  flush(): Float32Array {
+    this.isInputComplete = true;
+    return this.process();
+  }
+
+  // Discards pending output and continues from `position` (e.g. after the rate changed)
+  rewind(position: number): Float32Array {
+    this.analysisPosition = Math.max(0, Math.min(position, this.length));
+    this.previousStart = null;
+    this.overlap.fill(0);
+    return this.process();
+  }
+
+  reset() {
+    this.length = 0;
+    this.analysisPosition = 0;
+    this.previousStart = null;
+    this.overlap.fill(0);
+    this.isInputComplete = false;
+  }
+
+  private append(samples: Float32Array) {
+    if (this.length + samples.length > this.input.length) {
+      const grown = new Float32Array(Math.max(this.length + samples.length, this.input.length * 2, this.frameSize * 4));
+      grown.set(this.input.subarray(0, this.length));
+      this.input = grown;
+    }
+    this.input.set(samples, this.length);
+    this.length += samples.length;
+  }
+
+  private process(): Float32Array {
+    const output: number[] = [];
+    const { frameSize, hop, tolerance } = this;
+
+    while (true) {
+      const nominal = Math.round(this.analysisPosition);
+      const natural = this.previousStart === null ? nominal : this.previousStart + hop;
+      const isAligned = natural === nominal;
+
+      if (!this.isInputComplete && Math.max(natural, nominal + (isAligned ? 0 : tolerance)) + frameSize > this.length) break;
+      if (this.isInputComplete && nominal >= this.length) break;
+
+      const start = isAligned || this.isInputComplete ? nominal : this.findBestStart(nominal, natural);
+      // After a reset or rewind there is no previous frame to fade against
+      const isFirstFrame = this.previousStart === null;
+      for (let i = 0; i < frameSize; i++) {
+        const index = start + i;
+        const sample = index < this.length ? this.input[index] : 0;
+        this.overlap[i] += sample * (isFirstFrame && i < hop ? 1 : this.window[i]);
+      }
+
+      for (let i = 0; i < hop; i++) output.push(this.overlap[i]);
+      this.overlap.copyWithin(0, hop);
+      this.overlap.fill(0, frameSize - hop);
+
+      this.previousStart = start;
+      this.analysisPosition += hop * this.rate;
+    }
+
+    if (this.isInputComplete && this.previousStart !== null) {
+      // The falling half of the last frame
+      for (let i = 0; i < hop; i++) output.push(this.overlap[i]);
+      this.overlap.fill(0);
+      this.previousStart = null;
+      this.analysisPosition = this.length;
+    }
+    return Float32Array.from(output);
+  }
+
+  // The candidate whose first half correlates best with what naturally follows the previous frame
+  private findBestStart(nominal: number, natural: number): number {
+    const { hop, frameSize, tolerance, input } = this;
+    const from = Math.max(0, nominal - tolerance);
+    const to = Math.min(nominal + tolerance, this.length - frameSize);
+    let best = nominal;
+    let bestScore = -Infinity;
+
+    for (let candidate = from; candidate <= to; candidate++) {
+      let correlation = 0;
+      let energy = 1e-9;
+      for (let i = 0; i < hop; i++) {
+        const value = input[candidate + i];
+        correlation += value * input[natural + i];
+        energy += value * value;
+      }
+      const score = correlation / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+}
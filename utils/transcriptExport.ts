@@ -0,0 +1,190 @@
+import { AudioSegment, ConversationTurn, PronunciationFeedbackEvent, SessionRecording } from '../types';
+import { findSegmentForTurn } from '../services/sessionRecorder';
+
+export type TranscriptFormat = 'markdown' | 'csv' | 'srt' | 'vtt' | 'anki';
+
+export const TRANSCRIPT_FORMAT_INFO: Record<TranscriptFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown transcript', extension: 'md', mimeType: 'text/markdown' },
+  csv: { label: 'CSV (turns with timestamps)', extension: 'csv', mimeType: 'text/csv' },
+  srt: { label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt' },
+  anki: { label: 'Anki deck (TSV)', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+};
+
+// Menu order
+export const TRANSCRIPT_FORMATS = (Object.keys(TRANSCRIPT_FORMAT_INFO) as TranscriptFormat[]).map(id => ({ id, ...TRANSCRIPT_FORMAT_INFO[id] }));
+
+export interface TranscriptSource {
+  title: string;
+  startedAt: number; // Session clock origin for subtitle timings
+  turns: ConversationTurn[];
+  feedback: PronunciationFeedbackEvent[];
+  recording?: SessionRecording | null; // When present, subtitle cues follow the recorded audio
+}
+
+// Feedback is sent while the tutor answers, but the learner's transcript only lands when the turn completes,
+// so the two rarely share a timestamp. Each user turn takes the closest event within this window.
+const FEEDBACK_MATCH_WINDOW_MS = 20000;
+// Without a recording, a cue lasts until the next turn starts, within these bounds
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 8000;
+
+/** Pronunciation feedback for each user turn, keyed by turn id. An event is given to one turn at most. */
+export function matchFeedbackToTurns(turns: ConversationTurn[], feedback: PronunciationFeedbackEvent[]): Map<string, PronunciationFeedbackEvent> {
+  const matches = new Map<string, PronunciationFeedbackEvent>();
+  const unused = new Set(feedback);
+  for (const turn of turns) {
+    if (turn.role !== 'user') continue;
+    let best: PronunciationFeedbackEvent | null = null;
+    for (const event of unused) {
+      const distance = Math.abs(event.timestamp - turn.timestamp);
+      if (distance <= FEEDBACK_MATCH_WINDOW_MS && (!best || distance < Math.abs(best.timestamp - turn.timestamp))) best = event;
+    }
+    if (best) {
+      matches.set(turn.id, best);
+      unused.delete(best);
+    }
+  }
+  return matches;
+}
+
+const speakerLabel = (turn: ConversationTurn) => turn.role === 'ai' ? 'Tutor' : 'Learner';
+const scoreLine = (event: PronunciationFeedbackEvent) => `Score ${event.score}/100: ${event.feedback}`;
+const clockTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+function toMarkdown(source: TranscriptSource, scores: Map<string, PronunciationFeedbackEvent> | null): string {
+  const lines = [`# ${source.title}`, '', `*${new Date(source.startedAt).toLocaleString([], { dateStyle: 'long', timeStyle: 'short' })}*`, ''];
+  for (const turn of source.turns) {
+    const parts = [`**${speakerLabel(turn)}** · ${clockTime(turn.timestamp)}`, turn.text];
+    if (turn.pinyin) parts.push(`*${turn.pinyin}*`);
+    if (turn.translation) parts.push(turn.translation);
+    const event = scores?.get(turn.id);
+    if (event) parts.push(`Pronunciation **${event.score}/100** (${event.pinyin}): ${event.feedback}`);
+    // Two trailing spaces keep each part on its own line within the turn's paragraph
+    lines.push(parts.join('  \n'), '');
+  }
+  return lines.join('\n');
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function toCsv(source: TranscriptSource, scores: Map<string, PronunciationFeedbackEvent> | null): string {
+  const header = ['timestamp', 'elapsed_seconds', 'speaker', 'text', 'pinyin', 'translation'];
+  if (scores) header.push('score', 'feedback');
+  const rows = source.turns.map(turn => {
+    const row: (string | number)[] = [
+      new Date(turn.timestamp).toISOString(),
+      Math.max(0, Math.round((turn.timestamp - source.startedAt) / 1000)),
+      speakerLabel(turn),
+      turn.text,
+      turn.pinyin || '',
+      turn.translation || '',
+    ];
+    if (scores) {
+      const event = scores.get(turn.id);
+      row.push(event ? event.score : '', event ? event.feedback : '');
+    }
+    return row.map(csvField).join(',');
+  });
+  // The byte order mark makes spreadsheet apps read the hanzi as UTF-8
+  return '\uFEFF' + [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// HH:MM:SS plus milliseconds after the given separator (',' for SRT, '.' for WebVTT)
+function formatElapsed(ms: number, separator: string): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor(clamped / 60000) % 60;
+  const seconds = Math.floor(clamped / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(clamped % 1000, 3)}`;
+}
+
+/**
+ * Start and end of each turn in ms from the session start. A learner transcript only lands once the tutor's reply
+ * completes, so history timestamps put it after that reply; the recording knows when the learner actually spoke.
+ * Turns that share a segment (the tutor's subtitles arrive per sentence) split it in proportion to their text.
+ */
+function cueTimings(source: TranscriptSource): { start: number; end: number }[] {
+  const timings = source.turns.map((turn, i) => {
+    const start = turn.timestamp - source.startedAt;
+    const next = source.turns[i + 1];
+    return { start, end: start + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, next ? next.timestamp - turn.timestamp : MAX_CUE_MS)) };
+  });
+  if (!source.recording) return timings;
+
+  const turnsBySegment = new Map<AudioSegment, number[]>();
+  source.turns.forEach((turn, i) => {
+    const segment = findSegmentForTurn(source.recording, turn);
+    if (segment) turnsBySegment.set(segment, [...(turnsBySegment.get(segment) || []), i]);
+  });
+  for (const [segment, indices] of turnsBySegment) {
+    const duration = segment.samples.length / segment.sampleRate * 1000;
+    const weights = indices.map(i => Math.max(1, Array.from(source.turns[i].text.trim()).length));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let start = segment.startedAt - source.startedAt;
+    indices.forEach((turnIndex, j) => {
+      const end = start + duration * weights[j] / total;
+      timings[turnIndex] = { start, end };
+      start = end;
+    });
+  }
+  return timings;
+}
+
+function toSubtitles(source: TranscriptSource, scores: Map<string, PronunciationFeedbackEvent> | null, format: 'srt' | 'vtt'): string {
+  const separator = format === 'srt' ? ',' : '.';
+  const timings = cueTimings(source);
+  const order = source.turns.map((_, i) => i).sort((a, b) => timings[a].start - timings[b].start);
+  const cues = order.map((turnIndex, i) => {
+    const turn = source.turns[turnIndex];
+    const { start, end } = timings[turnIndex];
+    const text = turn.role === 'ai'
+      ? [turn.text, turn.pinyin, turn.translation].filter(Boolean)
+      : [`${speakerLabel(turn)}: ${turn.text}`];
+    const event = scores?.get(turn.id);
+    if (event) text.push(scoreLine(event));
+    const timing = `${formatElapsed(start, separator)} --> ${formatElapsed(end, separator)}`;
+    return format === 'srt' ? [String(i + 1), timing, ...text].join('\n') : [timing, ...text].join('\n');
+  });
+  return (format === 'vtt' ? ['WEBVTT', ...cues] : cues).join('\n\n') + '\n';
+}
+
+const tsvField = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+// Anki's text importer reads the # header lines (Anki 2.1.55+); older versions can still map the columns by hand
+function toAnki(source: TranscriptSource, scores: Map<string, PronunciationFeedbackEvent> | null): string {
+  const lines = ['#separator:tab', '#html:false', '#columns:Hanzi\tPinyin\tEnglish\tTags', '#tags column:4'];
+  const seen = new Set<string>();
+  for (const turn of source.turns) {
+    const hanzi = tsvField(turn.text);
+    if (!hanzi || seen.has(hanzi)) continue;
+    if (turn.role === 'ai') {
+      seen.add(hanzi);
+      lines.push([hanzi, tsvField(turn.pinyin || ''), tsvField(turn.translation || ''), 'mandarin-talk'].join('\t'));
+      continue;
+    }
+    // With scores, the learner's own scored sentences become cards too, with the feedback on the back
+    const event = scores?.get(turn.id);
+    if (event) {
+      seen.add(hanzi);
+      lines.push([hanzi, tsvField(event.pinyin), tsvField(scoreLine(event)), 'mandarin-talk my-attempt'].join('\t'));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Renders a session in one of the TRANSCRIPT_FORMATS. With `includeScores`, user turns carry their pronunciation feedback. */
+export function exportTranscript(source: TranscriptSource, format: TranscriptFormat, includeScores: boolean): string {
+  const scores = includeScores ? matchFeedbackToTurns(source.turns, source.feedback) : null;
+  switch (format) {
+    case 'markdown': return toMarkdown(source, scores);
+    case 'csv': return toCsv(source, scores);
+    case 'srt':
+    case 'vtt': return toSubtitles(source, scores, format);
+    case 'anki': return toAnki(source, scores);
+  }
+}